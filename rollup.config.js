@@ -9,12 +9,19 @@ const defaultOutput = {
     plugins: [typescript(), commonjs(), resolve()],
 };
 
+// Keeps MediaSession as the value of require() and of the global, with the
+// named exports, i.e. MediaPlaylist, available as its properties
+const assignNamedExports = target =>
+    `${target} = Object.assign(${target}['default'], ${target});`;
+
 const iifeBuild = {
     ...defaultOutput,
     output: {
         file: 'dist/mparticle-media.iife.js',
         format: 'iife',
         name: 'MediaSession',
+        exports: 'named',
+        footer: assignNamedExports('MediaSession'),
         sourcemap: ENVIRONMENT !== 'prod',
     },
 };
@@ -24,6 +31,8 @@ const cjsBuild = {
     output: {
         file: 'dist/mparticle-media.common.js',
         format: 'cjs',
+        exports: 'named',
+        footer: assignNamedExports('module.exports'),
         sourcemap: ENVIRONMENT !== 'prod',
     },
 };
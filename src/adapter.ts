@@ -0,0 +1,177 @@
+import { MediaSession } from './session';
+import { MediaElement, PlaybackState } from './types';
+import { getMonotonicTime } from './utils';
+
+/**
+ * Automatically tracks an HTML5 `<video>` or `<audio>` element by mapping its
+ * events onto the log methods of a [[MediaSession]].
+ *
+ * ```javascript
+ * const mediaSession = new MediaSession(...);
+ * const adapter = new MediaElementAdapter(
+ *     document.querySelector('video'),
+ *     mediaSession,
+ * );
+ *
+ * mediaSession.logMediaSessionStart();
+ *
+ * // When the player is torn down
+ * adapter.detach();
+ * mediaSession.logMediaSessionEnd();
+ * ```
+ *
+ * Times reported by the element in seconds are converted to milliseconds.
+ * The adapter does not start or end the session itself.
+ */
+export class MediaElementAdapter {
+    private listeners: { [type: string]: () => void } = {
+        play: () => this.onPlay(),
+        playing: () => this.onPlaying(),
+        pause: () => this.onPause(),
+        seeking: () => this.onSeeking(),
+        seeked: () => this.onSeeked(),
+        waiting: () => this.onWaiting(),
+        timeupdate: () => this.onTimeUpdate(),
+        ended: () => this.onEnded(),
+        durationchange: () => this.onDurationChange(),
+    };
+
+    private bufferStartTimestamp?: number;
+
+    /**
+     * Attaches listeners to the media element
+     * @param element An HTMLMediaElement, such as a `<video>` or `<audio>` element
+     * @param mediaSession The [[MediaSession]] that will log the element's events
+     */
+    constructor(
+        readonly element: MediaElement,
+        readonly mediaSession: MediaSession,
+    ) {
+        Object.keys(this.listeners).forEach(type => {
+            this.element.addEventListener(type, this.listeners[type]);
+        });
+    }
+
+    /**
+     * Removes every listener added to the media element
+     */
+    detach() {
+        Object.keys(this.listeners).forEach(type => {
+            this.element.removeEventListener(type, this.listeners[type]);
+        });
+    }
+
+    private get state(): PlaybackState {
+        return this.mediaSession.playbackState;
+    }
+
+    private monotonicNow(): number {
+        return getMonotonicTime(this.mediaSession.clock);
+    }
+
+    private playheadPosition(): number {
+        return Math.round(this.element.currentTime * 1000);
+    }
+
+    private bufferPercent(): number {
+        const { buffered, duration } = this.element;
+        if (!buffered || !buffered.length || !isFinite(duration) || !duration) {
+            return 0;
+        }
+        return (buffered.end(buffered.length - 1) / duration) * 100;
+    }
+
+    private isInContent(): boolean {
+        return (
+            this.state === PlaybackState.Started ||
+            this.state === PlaybackState.Playing ||
+            this.state === PlaybackState.Paused ||
+            this.state === PlaybackState.Ended
+        );
+    }
+
+    private onPlay() {
+        if (this.isInContent() && this.state !== PlaybackState.Playing) {
+            this.mediaSession.logPlay({
+                currentPlayheadPosition: this.playheadPosition(),
+            });
+        }
+    }
+
+    private onPlaying() {
+        this.endBuffering();
+        this.onPlay();
+    }
+
+    private onPause() {
+        if (
+            this.state === PlaybackState.Playing ||
+            this.state === PlaybackState.Seeking ||
+            this.state === PlaybackState.Buffering
+        ) {
+            this.mediaSession.logPause({
+                currentPlayheadPosition: this.playheadPosition(),
+            });
+        }
+    }
+
+    private onSeeking() {
+        if (this.isInContent()) {
+            this.mediaSession.logSeekStart(this.playheadPosition());
+        }
+    }
+
+    private onSeeked() {
+        this.endBuffering();
+        if (this.state === PlaybackState.Seeking) {
+            this.mediaSession.logSeekEnd(this.playheadPosition());
+        }
+    }
+
+    private onWaiting() {
+        if (this.isInContent() || this.state === PlaybackState.Seeking) {
+            this.bufferStartTimestamp = this.monotonicNow();
+            this.mediaSession.logBufferStart(
+                0,
+                this.bufferPercent(),
+                this.playheadPosition(),
+            );
+        }
+    }
+
+    private onTimeUpdate() {
+        if (this.state !== PlaybackState.Idle) {
+            this.mediaSession.logPlayheadPosition(this.playheadPosition());
+        }
+    }
+
+    private onEnded() {
+        this.endBuffering();
+        this.onPause();
+        this.mediaSession.logMediaContentEnd({
+            currentPlayheadPosition: this.playheadPosition(),
+        });
+    }
+
+    private onDurationChange() {
+        const { duration } = this.element;
+        if (isFinite(duration) && duration > 0) {
+            this.mediaSession.duration = Math.round(duration * 1000);
+        }
+    }
+
+    private endBuffering() {
+        if (this.state === PlaybackState.Buffering) {
+            const bufferDuration =
+                this.bufferStartTimestamp !== undefined
+                    ? this.monotonicNow() - this.bufferStartTimestamp
+                    : 0;
+            this.bufferStartTimestamp = undefined;
+            this.mediaSession.logBufferEnd(
+                bufferDuration,
+                this.bufferPercent(),
+                this.playheadPosition(),
+            );
+        }
+    }
+}
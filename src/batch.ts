@@ -0,0 +1,118 @@
+import {
+    BatchingOptions,
+    MediaEventType,
+    MediaMiddlewareContext,
+} from './types';
+import { defaultTimers } from './utils';
+
+/**
+ * High frequency events of which only the latest is kept
+ */
+const CoalescedEventTypes = [
+    MediaEventType.UpdatePlayheadPosition,
+    MediaEventType.UpdateQoS,
+];
+
+/**
+ * Events that change the playback state, or end the session, and send the batch right away
+ */
+const FlushEventTypes = [
+    MediaEventType.Play,
+    MediaEventType.Pause,
+    MediaEventType.ContentEnd,
+    MediaEventType.SessionStart,
+    MediaEventType.SessionEnd,
+    MediaEventType.SeekStart,
+    MediaEventType.SeekEnd,
+    MediaEventType.BufferStart,
+    MediaEventType.BufferEnd,
+    MediaEventType.AdBreakStart,
+    MediaEventType.AdBreakEnd,
+    MediaEventType.AdStart,
+    MediaEventType.AdEnd,
+    MediaEventType.AdSkip,
+    MediaEventType.SessionSummary,
+];
+
+/**
+ * Holds events before they are sent to the mParticle SDK.
+ *
+ * A playhead or QoS update replaces the previous update of the same type
+ * unless another event was added after it. The batch is sent when its window
+ * elapses, when a state changing event such as Pause or SessionEnd is added,
+ * or when `flush` is called.
+ */
+export class MediaEventBatcher {
+    private queue: MediaMiddlewareContext[] = [];
+    private handle?: unknown;
+
+    /**
+     * @param options An object representing [[BatchingOptions]]
+     * @param send Called with every event of the batch when it is flushed
+     */
+    constructor(
+        private options: BatchingOptions,
+        private send: (context: MediaMiddlewareContext) => void,
+    ) {}
+
+    /**
+     * Adds an event to the batch
+     * @param context The event and its page event form
+     */
+    add(context: MediaMiddlewareContext) {
+        const { eventType } = context.event;
+        if (CoalescedEventTypes.indexOf(eventType) !== -1) {
+            this.removeCoalesced(eventType);
+        }
+
+        this.queue.push(context);
+
+        if (FlushEventTypes.indexOf(eventType) !== -1) {
+            this.flush();
+        } else {
+            this.startTimer();
+        }
+    }
+
+    /**
+     * Sends every event of the batch
+     */
+    flush() {
+        this.stopTimer();
+
+        const queue = this.queue;
+        this.queue = [];
+        queue.forEach(context => this.send(context));
+    }
+
+    /**
+     * Removes the latest update of the given type if no other event followed it
+     */
+    private removeCoalesced(eventType: MediaEventType) {
+        for (let index = this.queue.length - 1; index >= 0; index--) {
+            const queuedType = this.queue[index].event.eventType;
+            if (CoalescedEventTypes.indexOf(queuedType) === -1) {
+                return;
+            }
+            if (queuedType === eventType) {
+                this.queue.splice(index, 1);
+                return;
+            }
+        }
+    }
+
+    private startTimer() {
+        if (this.handle === undefined) {
+            const { window = 5000, timers = defaultTimers } = this.options;
+            this.handle = timers.setInterval(() => this.flush(), window);
+        }
+    }
+
+    private stopTimer() {
+        if (this.handle !== undefined) {
+            const { timers = defaultTimers } = this.options;
+            timers.clearInterval(this.handle);
+            this.handle = undefined;
+        }
+    }
+}
@@ -0,0 +1,128 @@
+import { MediaEvent } from './events';
+import { MediaEventCallback, MediaEventFilter, MediaEventType } from './types';
+
+/**
+ * @hidden A single subscription to the emitter
+ */
+type Listener = {
+    eventTypes: MediaEventType[] | '*';
+    callback: MediaEventCallback;
+    once: boolean;
+};
+
+/**
+ * Dispatches [[MediaEvent]]s to any number of subscribed callbacks.
+ *
+ * A callback that throws does not prevent the remaining callbacks from being called.
+ * The error is passed to `onError` instead.
+ */
+export class MediaEventEmitter {
+    private listeners: Listener[] = [];
+
+    /**
+     * @param onError Called with any error thrown by a callback
+     */
+    constructor(private onError: (error: unknown) => void) {}
+
+    /**
+     * Subscribes a callback to one or more event types
+     * @param eventTypes A [[MediaEventType]], an array of them or `'*'` for all events
+     * @param callback A callback function
+     * @returns A function that removes the subscription
+     */
+    on(eventTypes: MediaEventFilter, callback: MediaEventCallback): () => void {
+        return this.addListener(eventTypes, callback, false);
+    }
+
+    /**
+     * Subscribes a callback that is removed after it is called once
+     * @param eventTypes A [[MediaEventType]], an array of them or `'*'` for all events
+     * @param callback A callback function
+     * @returns A function that removes the subscription
+     */
+    once(
+        eventTypes: MediaEventFilter,
+        callback: MediaEventCallback,
+    ): () => void {
+        return this.addListener(eventTypes, callback, true);
+    }
+
+    /**
+     * Unsubscribes a callback from one or more event types. Passing `'*'`
+     * removes every subscription of the callback
+     * @param eventTypes A [[MediaEventType]], an array of them or `'*'` for all events
+     * @param callback The callback function that was subscribed
+     */
+    off(eventTypes: MediaEventFilter, callback: MediaEventCallback) {
+        const removedTypes = this.normalize(eventTypes);
+
+        this.listeners = this.listeners.filter(listener => {
+            if (listener.callback !== callback) {
+                return true;
+            }
+            if (removedTypes === '*') {
+                return false;
+            }
+            if (listener.eventTypes === '*') {
+                return true;
+            }
+
+            listener.eventTypes = listener.eventTypes.filter(
+                eventType => removedTypes.indexOf(eventType) === -1,
+            );
+            return listener.eventTypes.length > 0;
+        });
+    }
+
+    /**
+     * Calls every callback subscribed to the type of the event
+     * @param event MediaEvent
+     */
+    emit(event: MediaEvent) {
+        const listeners = this.listeners.filter(
+            listener =>
+                listener.eventTypes === '*' ||
+                listener.eventTypes.indexOf(event.eventType) !== -1,
+        );
+
+        listeners.forEach(listener => {
+            if (listener.once) {
+                this.removeListener(listener);
+            }
+
+            try {
+                listener.callback(event);
+            } catch (error) {
+                this.onError(error);
+            }
+        });
+    }
+
+    private addListener(
+        eventTypes: MediaEventFilter,
+        callback: MediaEventCallback,
+        once: boolean,
+    ): () => void {
+        const listener: Listener = {
+            eventTypes: this.normalize(eventTypes),
+            callback,
+            once,
+        };
+        this.listeners.push(listener);
+
+        return () => this.removeListener(listener);
+    }
+
+    private removeListener(listener: Listener) {
+        this.listeners = this.listeners.filter(
+            registered => registered !== listener,
+        );
+    }
+
+    private normalize(eventTypes: MediaEventFilter): MediaEventType[] | '*' {
+        if (eventTypes === '*') {
+            return '*';
+        }
+        return Array.isArray(eventTypes) ? [...eventTypes] : [eventTypes];
+    }
+}
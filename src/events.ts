@@ -8,8 +8,13 @@ import {
     Segment,
     AdBreak,
     QoS,
+    PlaybackError,
+    Rendition,
+    RenditionSwitchDirection,
+    SeekDirection,
     ModelAttributes,
     EventType,
+    IdGenerator,
     PageEventObject,
     ValidMediaAttributeKeys,
     Options,
@@ -54,18 +59,29 @@ export abstract class BaseEvent {
  * functions as an `options` parameter.
  */
 export class MediaEvent extends BaseEvent {
-    id: string = uuid();
+    id: string;
 
     adContent?: AdContent;
     adBreak?: AdBreak;
     segment?: Segment;
     seekPosition?: number;
+    seekDistance?: number;
+    seekDirection?: SeekDirection;
+    seekDuration?: number;
+    milestonePercent?: number;
     bufferDuration?: number;
     bufferPercent?: number;
     bufferPosition?: number;
+    pauseDuration?: number;
     playheadPosition?: number;
+    playbackRate?: number;
+    liveLatency?: number;
+    isAtLiveEdge?: boolean;
     customAttributes?: ModelAttributes;
     qos?: QoS;
+    error?: PlaybackError;
+    rendition?: Rendition;
+    renditionSwitchDirection?: RenditionSwitchDirection;
 
     /**
      * Constructor for Media Event
@@ -77,6 +93,7 @@ export class MediaEvent extends BaseEvent {
      * @param streamType Stream Type i.e. live vs on demand
      * @param mediaSessionID Session ID from media Session
      * @param customAttributes A dictionary of custom attributes
+     * @param idGenerator Generates the unique identifier of the event
      * @returns An instance of a Media Event
      */
     constructor(
@@ -88,9 +105,11 @@ export class MediaEvent extends BaseEvent {
         readonly streamType: MediaStreamType,
         readonly mediaSessionID: string,
         public options: Options = {},
+        idGenerator: IdGenerator = uuid,
     ) {
         super(getNameFromType(eventType), eventType, MessageType.Media);
 
+        this.id = idGenerator();
         this.playheadPosition = options?.currentPlayheadPosition;
         this.customAttributes = options?.customAttributes;
     }
@@ -99,14 +118,14 @@ export class MediaEvent extends BaseEvent {
      * @hidden Returns custom attributes
      */
     getCustomAttributes = () => {
-        return this.options.customAttributes;
+        return this.customAttributes;
     };
 
     /**
      * @hidden Returns session related event attributes
      */
     getSessionAttributes = () => {
-        const sessionAttributes: { [key: string]: string | number } = {
+        const sessionAttributes: ModelAttributes = {
             content_title: this.contentTitle,
             content_duration: this.duration,
             content_id: this.contentId,
@@ -121,6 +140,20 @@ export class MediaEvent extends BaseEvent {
             ] = this.playheadPosition;
         }
 
+        if (typeof this.playbackRate === 'number') {
+            sessionAttributes[
+                ValidMediaAttributeKeys.playbackRate
+            ] = this.playbackRate;
+        }
+
+        if (typeof this.liveLatency === 'number') {
+            sessionAttributes[
+                ValidMediaAttributeKeys.liveLatency
+            ] = this.liveLatency;
+            sessionAttributes[ValidMediaAttributeKeys.isAtLiveEdge] = !!this
+                .isAtLiveEdge;
+        }
+
         return sessionAttributes;
     };
 
@@ -128,7 +161,7 @@ export class MediaEvent extends BaseEvent {
      * @hidden Representation of the Media Event as a Custom Event
      */
     getEventAttributes = (): ModelAttributes => {
-        const eventAttributes: { [key: string]: string | number } = {};
+        const eventAttributes: ModelAttributes = {};
 
         if (this.seekPosition) {
             eventAttributes[
@@ -136,6 +169,24 @@ export class MediaEvent extends BaseEvent {
             ] = this.seekPosition;
         }
 
+        if (this.seekDirection) {
+            eventAttributes[
+                ValidMediaAttributeKeys.seekDistance
+            ] = this.seekDistance!;
+            eventAttributes[
+                ValidMediaAttributeKeys.seekDirection
+            ] = this.seekDirection;
+            eventAttributes[
+                ValidMediaAttributeKeys.seekDuration
+            ] = this.seekDuration!;
+        }
+
+        if (this.milestonePercent) {
+            eventAttributes[
+                ValidMediaAttributeKeys.milestonePercent
+            ] = this.milestonePercent;
+        }
+
         if (this.bufferDuration) {
             eventAttributes[
                 ValidMediaAttributeKeys.bufferDuration
@@ -154,6 +205,12 @@ export class MediaEvent extends BaseEvent {
             ] = this.bufferPosition;
         }
 
+        if (this.pauseDuration) {
+            eventAttributes[
+                ValidMediaAttributeKeys.pauseDuration
+            ] = this.pauseDuration;
+        }
+
         // QoS
         if (this.qos) {
             if (typeof this.qos.bitRate === 'number') {
@@ -178,6 +235,50 @@ export class MediaEvent extends BaseEvent {
             }
         }
 
+        // Rendition
+        if (this.rendition) {
+            eventAttributes[
+                ValidMediaAttributeKeys.renditionBitrate
+            ] = this.rendition.bitrate;
+            if (this.rendition.width) {
+                eventAttributes[
+                    ValidMediaAttributeKeys.renditionWidth
+                ] = this.rendition.width;
+            }
+            if (this.rendition.height) {
+                eventAttributes[
+                    ValidMediaAttributeKeys.renditionHeight
+                ] = this.rendition.height;
+            }
+            if (this.rendition.codec) {
+                eventAttributes[
+                    ValidMediaAttributeKeys.renditionCodec
+                ] = this.rendition.codec;
+            }
+        }
+        if (this.renditionSwitchDirection) {
+            eventAttributes[
+                ValidMediaAttributeKeys.renditionSwitchDirection
+            ] = this.renditionSwitchDirection;
+        }
+
+        // Error
+        if (this.error) {
+            eventAttributes[
+                ValidMediaAttributeKeys.errorCode
+            ] = this.error.code;
+            eventAttributes[
+                ValidMediaAttributeKeys.errorMessage
+            ] = this.error.message;
+            if (this.error.domain) {
+                eventAttributes[
+                    ValidMediaAttributeKeys.errorDomain
+                ] = this.error.domain;
+            }
+            eventAttributes[ValidMediaAttributeKeys.errorFatal] = !!this.error
+                .fatal;
+        }
+
         // Ad Content
         if (this.adContent) {
             if (this.adContent.title) {
@@ -320,7 +421,7 @@ export class MediaEvent extends BaseEvent {
             ContentType: MediaContentType[this.contentType],
             StreamType: MediaStreamType[this.streamType],
 
-            EventAttributes: this.options.customAttributes,
+            EventAttributes: this.customAttributes,
         };
     };
 }
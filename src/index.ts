@@ -1,3 +1,39 @@
 import { MediaSession } from '../src/session';
 
+export { MediaSession };
+export { MediaElementAdapter } from './adapter';
+export { MediaPlaylist } from './playlist';
+export { InMemoryStorage } from './storage';
+export {
+    IllegalTransitionPolicy,
+    MediaContentType,
+    MediaEventType,
+    MediaStreamType,
+    PlaybackState,
+    PlaylistStartType,
+} from './types';
+export type {
+    BatchingOptions,
+    Clock,
+    HeartbeatOptions,
+    IdGenerator,
+    LongPauseOptions,
+    MediaContent,
+    MediaElement,
+    MediaEventCallback,
+    MediaEventFilter,
+    MediaMiddleware,
+    MediaMiddlewareContext,
+    MediaPlaylistConfig,
+    MediaSessionConfig,
+    MediaSessionDependencies,
+    MediaSessionStorage,
+    PersistenceOptions,
+    ProgramContent,
+    RestoreOptions,
+    SeekDetectionOptions,
+    StallDetectionOptions,
+    Timers,
+} from './types';
+
 export default MediaSession;
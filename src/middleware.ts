@@ -0,0 +1,108 @@
+import { MediaMiddleware, MediaMiddlewareContext } from './types';
+
+/**
+ * Runs [[MediaMiddlewareContext]]s through an ordered chain of [[MediaMiddleware]]s.
+ *
+ * A middleware that throws or returns a rejected promise drops the event.
+ * The error is passed to `onError` instead. Errors thrown by the rest of the
+ * chain or by `send` while `next` is called synchronously are not caught.
+ */
+export class MediaMiddlewareChain {
+    private middlewares: MediaMiddleware[] = [];
+    private pending: Array<Promise<void>> = []; //promises returned by middlewares that have not settled yet
+
+    /**
+     * @param onError Called with any error thrown by a middleware
+     */
+    constructor(private onError: (error: unknown) => void) {}
+
+    /**
+     * Appends a middleware to the end of the chain
+     * @param middleware A middleware function
+     * @returns A function that removes the middleware
+     */
+    add(middleware: MediaMiddleware): () => void {
+        this.middlewares.push(middleware);
+
+        return () => this.remove(middleware);
+    }
+
+    /**
+     * Removes a middleware from the chain
+     * @param middleware The middleware function that was added
+     */
+    remove(middleware: MediaMiddleware) {
+        this.middlewares = this.middlewares.filter(
+            registered => registered !== middleware,
+        );
+    }
+
+    /**
+     * Returns a promise that resolves once every promise returned by a middleware
+     * has settled, including those returned by the middlewares that run after it.
+     * Middlewares that call `next` asynchronously without returning a promise
+     * are not waited for
+     */
+    settled(): Promise<void> {
+        if (!this.pending.length) {
+            return Promise.resolve();
+        }
+
+        return Promise.all(this.pending).then(() => this.settled());
+    }
+
+    /**
+     * Passes the context through every middleware and calls `send` with each
+     * context that reaches the end of the chain. Middlewares removed while an
+     * event is on its way still complete that event.
+     * @param context The event and its page event form
+     * @param send Called with every context that is not dropped
+     */
+    run(
+        context: MediaMiddlewareContext,
+        send: (context: MediaMiddlewareContext) => void,
+    ) {
+        this.dispatch([...this.middlewares], 0, context, send);
+    }
+
+    private dispatch(
+        middlewares: MediaMiddleware[],
+        index: number,
+        context: MediaMiddlewareContext,
+        send: (context: MediaMiddlewareContext) => void,
+    ) {
+        if (index >= middlewares.length) {
+            send(context);
+            return;
+        }
+
+        let downstream: { error: unknown } | undefined;
+        const next = (nextContext: MediaMiddlewareContext = context) => {
+            try {
+                this.dispatch(middlewares, index + 1, nextContext, send);
+            } catch (error) {
+                downstream = { error };
+                throw error;
+            }
+        };
+
+        try {
+            const result = middlewares[index](context, next);
+            if (result && typeof result.then === 'function') {
+                const pending = Promise.resolve(result)
+                    .then(undefined, error => this.onError(error))
+                    .then(() => {
+                        this.pending = this.pending.filter(
+                            promise => promise !== pending,
+                        );
+                    });
+                this.pending.push(pending);
+            }
+        } catch (error) {
+            if (downstream && downstream.error === error) {
+                throw error;
+            }
+            this.onError(error);
+        }
+    }
+}
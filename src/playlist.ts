@@ -0,0 +1,250 @@
+import { MediaEvent } from './events';
+import { MediaSession } from './session';
+import {
+    Clock,
+    IdGenerator,
+    MediaContent,
+    MediaEventType,
+    MediaPlaylistConfig,
+    MpSDKInstance,
+    Options,
+    PlaybackState,
+    PlaylistStartType,
+    ValidMediaAttributeKeys,
+} from './types';
+import { defaultClock, uuid } from './utils';
+
+/**
+ * Plays a queue of [[MediaContent]] as successive [[MediaSession]]s, i.e. the
+ * episodes of a series.
+ *
+ * ```javascript
+ * const playlist = new MediaPlaylist(mParticle, {
+ *     items: [episode1, episode2, episode3],
+ *     logPageEvent: true,
+ *     onSessionCreated: mediaSession => mediaSession.addMiddleware(enrich),
+ * });
+ *
+ * // When the visitor clicks play
+ * const mediaSession = playlist.start();
+ *
+ * // When the player moves on to the next episode by itself
+ * const nextSession = playlist.playNext();
+ *
+ * // When the visitor stops watching
+ * playlist.stop();
+ * ```
+ *
+ * Every event of a session carries the `playlist_id`, the `playlist_item_index`
+ * and whether the item was started by the user or by autoplay. Stopping the
+ * playlist ends the current session and logs a Playlist Summary.
+ */
+export class MediaPlaylist {
+    /**
+     * A unique identifier shared by every session of the playlist
+     */
+    get playlistId() {
+        return this._playlistId;
+    }
+    private _playlistId: string;
+
+    /**
+     * The session of the item being played, if any
+     */
+    get currentSession() {
+        return this._currentSession;
+    }
+    private _currentSession?: MediaSession;
+
+    /**
+     * The index of the item being played, or -1 before the playlist starts
+     */
+    get currentIndex() {
+        return this._currentIndex;
+    }
+    private _currentIndex = -1;
+
+    private items: MediaContent[];
+    private clock: Clock;
+    private idGenerator: IdGenerator;
+    private playlistStartTimestamp?: number;
+    private itemsStarted = 0; //number of items started in the playlist
+    private itemsAutoplayed = 0; //number of items started by autoplay
+    private itemsCompleted = 0; //number of items whose content was completed
+    private playlistTimeSpent = 0; //sum of the media time spent of every session
+    private playlistContentTimeSpent = 0; //sum of the content time spent of every session
+
+    /**
+     * @param mparticleInstance Your mParticle global object
+     * @param config An object representing the [[MediaPlaylistConfig]]
+     */
+    constructor(
+        readonly mparticleInstance: MpSDKInstance,
+        readonly config: MediaPlaylistConfig,
+    ) {
+        this.items = [...config.items];
+        this.clock = config.clock || defaultClock;
+        this.idGenerator = config.idGenerator || uuid;
+        this._playlistId = this.idGenerator();
+    }
+
+    /**
+     * Returns a copy of the queued media content
+     */
+    getItems(): MediaContent[] {
+        return [...this.items];
+    }
+
+    /**
+     * Adds media content to the end of the queue
+     * @param items The media content to add
+     */
+    enqueue(...items: MediaContent[]) {
+        this.items.push(...items);
+    }
+
+    /**
+     * Starts a session for the item at the given index, ending the current one.
+     * Used when the visitor picks an item
+     * @param index The index of the item to play. Defaults to the first item
+     * @param startType How the item was started. Defaults to User
+     * @returns The started session, or undefined if there is no item at the index
+     */
+    start(
+        index = 0,
+        startType = PlaylistStartType.User,
+    ): MediaSession | undefined {
+        const content = this.items[index];
+        if (!content) {
+            this.mparticleInstance.logger(
+                `Cannot start playlist item ${index} of ${this.items.length}`,
+            );
+            return undefined;
+        }
+
+        this.endCurrentSession();
+
+        if (this.playlistStartTimestamp === undefined) {
+            this.playlistStartTimestamp = this.clock.now();
+        }
+        this.itemsStarted += 1;
+        if (startType === PlaylistStartType.Autoplay) {
+            this.itemsAutoplayed += 1;
+        }
+
+        const mediaSession = MediaSession.create(this.mparticleInstance, {
+            ...this.config,
+            content,
+            baseCustomAttributes: {
+                ...this.config.baseCustomAttributes,
+                [ValidMediaAttributeKeys.playlistId]: this.playlistId,
+                [ValidMediaAttributeKeys.playlistItemIndex]: index,
+                [ValidMediaAttributeKeys.playlistStartType]: startType,
+            },
+        });
+        mediaSession.on(MediaEventType.SessionSummary, event =>
+            this.storeSessionSummary(event),
+        );
+
+        this._currentSession = mediaSession;
+        this._currentIndex = index;
+        if (this.config.onSessionCreated) {
+            this.config.onSessionCreated(mediaSession, index);
+        }
+        mediaSession.logMediaSessionStart();
+
+        return mediaSession;
+    }
+
+    /**
+     * Starts a session for the next item, ending the current one. Stops the
+     * playlist once the last item was played
+     * @param startType How the item was started. Defaults to Autoplay
+     * @returns The started session, or undefined if the playlist has ended
+     */
+    playNext(startType = PlaylistStartType.Autoplay): MediaSession | undefined {
+        if (this.currentIndex + 1 >= this.items.length) {
+            this.stop();
+            return undefined;
+        }
+
+        return this.start(this.currentIndex + 1, startType);
+    }
+
+    /**
+     * Ends the current session and logs a Playlist Summary. Should be triggered
+     * when the visitor stops watching
+     * @returns A promise that resolves once batched events have been sent
+     */
+    stop(): Promise<void> {
+        const mediaSession = this._currentSession;
+        if (!mediaSession) {
+            return Promise.resolve();
+        }
+
+        this._currentSession = undefined;
+        if (mediaSession.playbackState !== PlaybackState.Idle) {
+            mediaSession.logMediaSessionEnd();
+        }
+        this.logPlaylistSummary(mediaSession);
+
+        return mediaSession.dispose();
+    }
+
+    private endCurrentSession() {
+        const mediaSession = this._currentSession;
+        if (mediaSession) {
+            this._currentSession = undefined;
+            mediaSession.dispose();
+        }
+    }
+
+    /**
+     * Adds the metrics of a session that ended to the playlist metrics
+     * @param event The Session Summary of the session
+     */
+    private storeSessionSummary(event: MediaEvent) {
+        const attributes = event.customAttributes || {};
+        if (attributes[ValidMediaAttributeKeys.contentCompleteKey]) {
+            this.itemsCompleted += 1;
+        }
+        this.playlistTimeSpent +=
+            Number(attributes[ValidMediaAttributeKeys.mediaTimeSpentKey]) || 0;
+        this.playlistContentTimeSpent +=
+            Number(attributes[ValidMediaAttributeKeys.contentTimeSpentKey]) ||
+            0;
+    }
+
+    private logPlaylistSummary(lastSession: MediaSession) {
+        // tslint:disable-next-line: no-any
+        const customAttributes: Record<string, any> = {};
+        customAttributes[ValidMediaAttributeKeys.playlistId] = this.playlistId;
+        customAttributes[
+            ValidMediaAttributeKeys.playlistItemCountKey
+        ] = this.items.length;
+        customAttributes[
+            ValidMediaAttributeKeys.playlistItemsStartedKey
+        ] = this.itemsStarted;
+        customAttributes[
+            ValidMediaAttributeKeys.playlistItemsAutoplayedKey
+        ] = this.itemsAutoplayed;
+        customAttributes[
+            ValidMediaAttributeKeys.playlistItemsCompletedKey
+        ] = this.itemsCompleted;
+        customAttributes[
+            ValidMediaAttributeKeys.playlistStartTimestampKey
+        ] = this.playlistStartTimestamp;
+        customAttributes[
+            ValidMediaAttributeKeys.playlistEndTimestampKey
+        ] = this.clock.now();
+        customAttributes[
+            ValidMediaAttributeKeys.playlistTimeSpentKey
+        ] = this.playlistTimeSpent;
+        customAttributes[
+            ValidMediaAttributeKeys.playlistContentTimeSpentKey
+        ] = this.playlistContentTimeSpent;
+
+        const options: Options = { customAttributes };
+        lastSession.logPlaylistSummary(options);
+    }
+}
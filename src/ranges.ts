@@ -0,0 +1,109 @@
+import { PlayheadRange } from './types';
+
+/**
+ * Number of buckets in the coverage bitmap, one per percent of the content
+ */
+const CoverageBuckets = 100;
+
+/**
+ * A merged set of playhead ranges that were watched, so that rewatching the
+ * same part of the content is only counted once
+ */
+export class WatchedRanges {
+    private ranges: PlayheadRange[] = [];
+
+    /**
+     * @param ranges Ranges to start from, i.e. when restoring a session
+     */
+    constructor(ranges: PlayheadRange[] = []) {
+        ranges.forEach(([start, end]) => this.add(start, end));
+    }
+
+    /**
+     * Adds a watched range, merging it with any ranges it overlaps or touches
+     * @param start Playhead position where watching started
+     * @param end Playhead position where watching ended
+     */
+    add(start: number, end: number) {
+        if (end <= start) {
+            return;
+        }
+
+        const merged: PlayheadRange[] = [];
+        let added: PlayheadRange = [start, end];
+        this.ranges.forEach(range => {
+            if (range[1] < added[0] || range[0] > added[1]) {
+                merged.push(range);
+            } else {
+                added = [
+                    Math.min(range[0], added[0]),
+                    Math.max(range[1], added[1]),
+                ];
+            }
+        });
+        merged.push(added);
+
+        this.ranges = merged.sort((a, b) => a[0] - b[0]);
+    }
+
+    /**
+     * Returns a copy of the merged ranges, sorted by start position
+     */
+    toArray(): PlayheadRange[] {
+        return this.ranges.map(([start, end]): PlayheadRange => [start, end]);
+    }
+
+    /**
+     * Returns the total time watched, counting every position once
+     */
+    getTotal(): number {
+        return this.getCoveredTime(0, Infinity);
+    }
+
+    /**
+     * Returns the percent of the content that was watched
+     * @param duration Duration of the content
+     */
+    getPercent(duration: number): number {
+        if (!duration) {
+            return 0;
+        }
+        return (this.getCoveredTime(0, duration) / duration) * 100;
+    }
+
+    /**
+     * Returns a hexadecimal bitmap of 100 bits, one per percent of the content.
+     * A bit is set when at least half of its percent was watched
+     * @param duration Duration of the content
+     */
+    getBitmap(duration: number): string {
+        if (!duration) {
+            return '';
+        }
+
+        const bucketSize = duration / CoverageBuckets;
+        let bitmap = '';
+        for (let nibble = 0; nibble < CoverageBuckets / 4; nibble++) {
+            let value = 0;
+            for (let bit = 0; bit < 4; bit++) {
+                const bucketStart = (nibble * 4 + bit) * bucketSize;
+                const covered = this.getCoveredTime(
+                    bucketStart,
+                    bucketStart + bucketSize,
+                );
+                if (covered >= bucketSize / 2) {
+                    value |= 8 >> bit;
+                }
+            }
+            bitmap += value.toString(16);
+        }
+        return bitmap;
+    }
+
+    private getCoveredTime(from: number, to: number): number {
+        return this.ranges.reduce((total, [start, end]) => {
+            const overlap = Math.min(end, to) - Math.max(start, from);
+            return overlap > 0 ? total + overlap : total;
+        }, 0);
+    }
+}
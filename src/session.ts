@@ -2,12 +2,35 @@ import { MediaEvent } from './events';
 import {
     AdBreak,
     AdContent,
+    BatchingOptions,
     MediaContentType,
     MediaStreamType,
     Segment,
     MediaEventCallback,
+    MediaEventFilter,
     MediaEventType,
+    MediaMiddleware,
+    MediaMiddlewareContext,
+    Clock,
+    HeartbeatOptions,
+    IdGenerator,
+    LongPauseOptions,
+    MediaSessionConfig,
+    MediaSessionDependencies,
+    PersistenceOptions,
+    PlaybackError,
+    Rendition,
+    RenditionSwitchDirection,
+    SeekDetectionOptions,
+    SeekDirection,
+    StallDetectionOptions,
+    RestoreOptions,
+    SerializedMediaSession,
     MpSDKInstance,
+    PlaybackState,
+    IllegalTransitionPolicy,
+    LiveWindow,
+    ProgramContent,
     QoS,
     EventType,
     MessageType,
@@ -17,7 +40,30 @@ import {
     ValidMediaAttributeKeys,
 } from './types';
 
-import { uuid } from './utils';
+import { MediaEventBatcher } from './batch';
+import { WatchedRanges } from './ranges';
+import { MediaEventEmitter } from './emitter';
+import { MediaMiddlewareChain } from './middleware';
+import { PlaybackStateMachine } from './state';
+import {
+    defaultClock,
+    defaultTimers,
+    getMonotonicTime,
+    getNameFromType,
+    getPlaybackRateBucket,
+    getRenditionTier,
+    uuid,
+} from './utils';
+
+const DefaultStorageKey = 'mparticle-media-session';
+const SerializationVersion = 1;
+const WatchedRangeTolerance = 1000;
+
+const AdQuartileEventTypes = [
+    MediaEventType.AdFirstQuartile,
+    MediaEventType.AdMidpoint,
+    MediaEventType.AdThirdQuartile,
+];
 
 /**
  * The MediaSession class is the primary class that will be used to engage with the mParticle Media SDK.
@@ -39,6 +85,23 @@ import { uuid } from './utils';
  * )
  * ```
  *
+ * Alternatively, use [[MediaSession.create]] with a single [[MediaSessionConfig]] object
+ *
+ * ```javascript
+ * const mediaSession = MediaSession.create(mParticle, {
+ *   content: {
+ *     contentId: '1234567',
+ *     title: 'Funny Internet cat video',
+ *     duration: 120000,
+ *     contentType: 'Video',
+ *     streamType: 'OnDemand',
+ *   },
+ *   logPageEvent: true,
+ *   logMediaEvent: true,
+ *   baseCustomAttributes: customAttributeObject,
+ * })
+ * ```
+ *
  * ## Logging Events
  *
  * Once initiated, a [[MediaSession]] provides various log methods
@@ -79,7 +142,24 @@ export class MediaSession {
     }
     private _sessionId = '';
 
+    /**
+     * A unique identifier for the current media content, updated by `logProgramChange`
+     */
+    get contentId() {
+        return this._contentId;
+    }
+    private _contentId: string;
+
+    /**
+     * The title of the current media content, updated by `logProgramChange`
+     */
+    get title() {
+        return this._title;
+    }
+    private _title: string;
+
     private currentPlayheadPosition?: number;
+    private playheadContentTime = 0; //Content time consumed when the playhead position was last reported, used to extrapolate it for the live latency
 
     private currentQoS: QoS = {
         startupTime: 0,
@@ -90,25 +170,50 @@ export class MediaSession {
 
     private customAttributes: ModelAttributes = {};
 
-    private mediaSessionStartTimestamp = Date.now(); //Timestamp created on logMediaSessionStart event
-    private mediaSessionEndTimestamp = Date.now(); //Timestamp updated when any event is loggged
+    /**
+     * The [[Clock]] used for the timestamps and elapsed times of the session
+     */
+    get clock(): Clock {
+        return this._clock;
+    }
+    private _clock: Clock;
+    private idGenerator: IdGenerator;
+    private mediaSessionStartTimestamp: number; //Timestamp created on logMediaSessionStart event
+    private mediaSessionEndTimestamp: number; //Timestamp updated when any event is loggged
     private mediaTimeSpent() {
         return this.mediaSessionEndTimestamp - this.mediaSessionStartTimestamp;
     }
     private currentPlaybackStartTimestamp?: number; //Timestamp for beginning of current playback
     private storedPlaybackTime = 0; //On Pause calculate playback time and clear currentPlaybackTime
     private mediaContentTimeSpent() {
-        if (this.currentPlaybackStartTimestamp) {
+        if (this.currentPlaybackStartTimestamp !== undefined) {
             return (
                 this.storedPlaybackTime +
-                (Date.now() - this.currentPlaybackStartTimestamp)
+                (this.monotonicNow() - this.currentPlaybackStartTimestamp)
             );
         } else {
             return this.storedPlaybackTime;
         }
     }
     mediaContentCompleteLimit = 100; //Percentage of content that must be progressed through to mark as completed
+    liveEdgeTolerance = 10000; //Latency in milliseconds up to which a live stream is considered at the live edge
     private mediaContentComplete = false; //Updates to true triggered by logMediaContentEnd, 0 or false if complete milestone not reached.
+    /**
+     * Percentages of content progress that trigger a Milestone event, i.e. `[25, 50, 75, 95]`.
+     * The percentages are sorted and duplicates are removed when they are set
+     */
+    get progressMilestones(): number[] {
+        return this._progressMilestones;
+    }
+    set progressMilestones(milestones: number[]) {
+        this._progressMilestones = milestones
+            .filter(
+                (milestone, index) => milestones.indexOf(milestone) === index,
+            )
+            .sort((a, b) => a - b);
+    }
+    private _progressMilestones: number[] = [];
+    private reachedMilestones: number[] = []; //Milestones already logged in the media session
     private mediaSessionSegmentTotal = 0; //number incremented with each logSegmentStart
     private mediaTotalAdTimeSpent = 0; //total second sum of ad break time spent
     private mediaAdTimeSpentRate() {
@@ -118,9 +223,110 @@ export class MediaSession {
     }
     private mediaSessionAdTotal = 0; //number of ads played in the media session - increment on logAdStart
     private mediaSessionAdObjects: string[] = []; //array of unique identifiers for ads played in the media session - append ad_content_ID on logAdStart
+    private adBreakAdsStarted = 0; //number of ads started in the current ad break
+    private adBreakAdsCompleted = 0; //number of ads completed in the current ad break
+    private adBreakAdsSkipped = 0; //number of ads skipped in the current ad break
+    private bufferStartTimestamp?: number; //Timestamp of the current buffering event, cleared on logBufferEnd
+    private bufferStartPercent?: number; //Buffer percent of the current buffering event
+    private bufferStartedBeforePlayback = false; //Whether the current buffering event started before the first logPlay
+    private bufferStartedInAd = false; //Whether the current buffering event started during an ad or ad break, which is left out of the buffering metrics
+    private contentPlaybackStarted = false; //Updates to true on the first logPlay or playhead advance of the media session
+    private playRequestedTimestamp?: number; //Monotonic time of logMediaSessionStart or markPlayRequested, used to measure the startup time
+    private playRequestedPosition = 0; //Playhead position when playback was requested
+    private startupBufferTotal = 0; //number of buffering events before the first logPlay
+    private startupBufferTimeSpent = 0; //total time spent buffering before the first logPlay
+    private rebufferTotal = 0; //number of buffering events after the first logPlay
+    private rebufferTimeSpent = 0; //total time spent buffering after the first logPlay
+    private longestRebuffer = 0; //duration of the longest buffering event after the first logPlay
+    private rebufferRatio() {
+        const contentTimeSpent = this.mediaContentTimeSpent();
+        return contentTimeSpent ? this.rebufferTimeSpent / contentTimeSpent : 0;
+    }
+    private mediaSessionErrorTotal = 0; //number of errors logged in the media session - increment on logError
+    private mediaSessionFatalErrorTotal = 0; //number of fatal errors logged in the media session
+    private currentRendition?: Rendition; //Latest rendition logged via logRenditionChange
+    private renditionStartContentTime = 0; //Content time spent when the current rendition started
+    private renditionTimeSpent: { [tier: string]: number } = {}; //Content time spent per rendition tier
+    private renditionBitrateTime = 0; //Sum of bitrate multiplied by content time spent for each rendition
+    private renditionUpshifts = 0; //number of switches to a higher bitrate
+    private renditionDownshifts = 0; //number of switches to a lower bitrate
+    private renditionLateralSwitches = 0; //number of switches that kept the bitrate
+    private seekStartTimestamp?: number; //Timestamp of the current seek, cleared on logSeekEnd
+    private seekStartPosition?: number; //Playhead position the current seek started from
+    private seekForwardTotal = 0; //number of seeks forward in the media session
+    private seekBackwardTotal = 0; //number of seeks backward in the media session
+    private seekTimeSpent = 0; //total time spent seeking
+    private seekDetection?: SeekDetectionOptions;
+    private lastPlayheadUpdate?: { position: number; timestamp: number }; //Latest playhead position and the monotonic time it was logged, used to infer seeks
+    private stallDetection?: StallDetectionOptions;
+    private lastPlayheadAdvance?: { position: number; timestamp: number }; //Latest playhead position that differed from the previous one and the monotonic time it was logged, used to infer buffering
+    private stallInferred = false; //Whether the current buffering event was inferred from the playhead position
+    private watchedRanges = new WatchedRanges(); //Merged playhead ranges watched in the media session
+    private lastWatchedPosition?: { position: number; contentTime: number }; //Latest playhead position and the content time consumed when it was logged, used to extend the watched ranges
+    private pauseStartTimestamp?: number; //Timestamp of the current pause, cleared on logPlay
+    private pauseSuspendedTimestamp?: number; //Timestamp an ad or ad break interrupted the current pause, cleared when it ends
+    private pauseTotal = 0; //number of pauses in the media session - increment on logPause while playing
+    private pauseTimeSpent = 0; //total time spent paused
+    private longestPause = 0; //duration of the longest pause
+    private resumeTotal = 0; //number of pauses ended by logPlay
+    private longPauseDetection?: LongPauseOptions;
+    private longPauseHandle?: unknown;
+    private longPauseLogged = false; //Whether the Long Pause event was logged for the current pause
+    private playbackRate?: number; //Latest rate logged via logPlaybackRateChange, attached to every event once logged
+    private playbackRateStartContentTime = 0; //Content time spent when the current playback rate started
+    private playbackRateTimeSpent: { [rate: string]: number } = {}; //Content time spent per playback rate bucket
+    private contentTimeConsumed = 0; //Content time spent multiplied by the playback rate, i.e. minutes of audio heard
+    private liveWindow?: LiveWindow; //Latest seekable window logged via updateLiveWindow
+    private liveWindowTimestamp = 0; //Monotonic time the live window was logged, used to move the live edge forward
+    private atLiveEdge?: boolean; //Whether the playhead was at the live edge when the live window or playhead was last updated
+    private programIndex = 0; //Index of the current program - increment on logProgramChange
+    private programStartTimestamp = 0; //Timestamp the current program started, on logMediaSessionStart or logProgramChange
+    private programStartContentTime = 0; //Content time spent when the current program started
+    private programStartAdTime = 0; //Ad time spent when the current program started
+    private averageBitrate() {
+        let totalTime = 0;
+        Object.keys(this.renditionTimeSpent).forEach(tier => {
+            totalTime += this.renditionTimeSpent[tier];
+        });
+
+        if (!totalTime) {
+            return this.currentRendition?.bitrate || 0;
+        }
+        return this.renditionBitrateTime / totalTime;
+    }
 
     private sessionSummarySent = false; // Ensures we only send the summary event once
 
+    /**
+     * Determines what happens when a log method is called in a [[PlaybackState]]
+     * where it is not allowed, i.e. `logPause` before `logMediaSessionStart`
+     */
+    illegalTransitionPolicy = IllegalTransitionPolicy.Warn;
+
+    /**
+     * Ends the session when a fatal [[PlaybackError]] is logged via `logError`
+     */
+    endSessionOnFatalError = false;
+
+    /**
+     * Measures the time from `logMediaSessionStart`, or `markPlayRequested`, to the
+     * first play or playhead advance and logs it as the QoS startup time
+     */
+    measureStartupTime = false;
+
+    /**
+     * The current [[PlaybackState]] of the session
+     */
+    get playbackState(): PlaybackState {
+        return this.stateMachine.state;
+    }
+    private stateMachine = new PlaybackStateMachine();
+
+    private heartbeat?: HeartbeatOptions;
+    private heartbeatHandle?: unknown;
+
+    private persistence?: PersistenceOptions;
+
     /**
      * Initializes the Media Session object. This does not start a session, you can do so by calling `logMediaSessionStart`.
      * @param mparticleInstance Your mParticle global object
@@ -132,19 +338,414 @@ export class MediaSession {
      * @param logPageEvent A flag that toggles sending mParticle Events to Core SDK
      * @param logMediaEvent A flag that toggles sending Media Events to Core SDK
      * @param baseCustomAttributes A set of base custom attributes to attach to all media events
+     * @param dependencies Replaces the clock and ID generator used by the session and its events
      */
     constructor(
         readonly mparticleInstance: MpSDKInstance,
-        readonly contentId: string,
-        readonly title: string,
+        contentId: string,
+        title: string,
         public duration: number,
         readonly contentType: MediaContentType,
         readonly streamType: MediaStreamType,
         public logPageEvent = false,
         public logMediaEvent = true,
-        public baseCustomAttributes = {}
+        public baseCustomAttributes = {},
+        dependencies: MediaSessionDependencies = {},
     ) {
-        this.mediaSessionStartTimestamp = Date.now();
+        this._contentId = contentId;
+        this._title = title;
+        this._clock = dependencies.clock || defaultClock;
+        this.idGenerator = dependencies.idGenerator || uuid;
+        this.mediaSessionStartTimestamp = this.now();
+        this.mediaSessionEndTimestamp = this.now();
+    }
+
+    /**
+     * Creates a Media Session from a single configuration object. This does not start a session,
+     * you can do so by calling `logMediaSessionStart`.
+     *
+     * ```typescript
+     * const mediaSession = MediaSession.create(mParticle, {
+     *     content: {
+     *         contentId: '1234567',
+     *         title: 'Funny Internet cat video',
+     *         duration: 120000,
+     *         contentType: MediaContentType.Video,
+     *         streamType: MediaStreamType.OnDemand,
+     *     },
+     *     logPageEvent: true,
+     *     mediaContentCompleteLimit: 90,
+     * });
+     * ```
+     * @param mparticleInstance Your mParticle global object
+     * @param config An object representing [[MediaSessionConfig]]
+     */
+    static create(
+        mparticleInstance: MpSDKInstance,
+        config: MediaSessionConfig,
+    ): MediaSession {
+        const { content } = config;
+        const mediaSession = new MediaSession(
+            mparticleInstance,
+            content.contentId,
+            content.title,
+            content.duration,
+            content.contentType,
+            content.streamType,
+            config.logPageEvent,
+            config.logMediaEvent,
+            config.baseCustomAttributes,
+            {
+                clock: config.clock,
+                idGenerator: config.idGenerator,
+            },
+        );
+
+        if (config.mediaContentCompleteLimit !== undefined) {
+            mediaSession.mediaContentCompleteLimit =
+                config.mediaContentCompleteLimit;
+        }
+        if (config.liveEdgeTolerance !== undefined) {
+            mediaSession.liveEdgeTolerance = config.liveEdgeTolerance;
+        }
+        if (config.illegalTransitionPolicy) {
+            mediaSession.illegalTransitionPolicy =
+                config.illegalTransitionPolicy;
+        }
+        if (config.progressMilestones) {
+            mediaSession.progressMilestones = config.progressMilestones;
+        }
+        if (config.endSessionOnFatalError !== undefined) {
+            mediaSession.endSessionOnFatalError = config.endSessionOnFatalError;
+        }
+        if (config.measureStartupTime !== undefined) {
+            mediaSession.measureStartupTime = config.measureStartupTime;
+        }
+        if (config.heartbeat) {
+            mediaSession.enableHeartbeat(config.heartbeat);
+        }
+        if (config.batching) {
+            mediaSession.enableBatching(config.batching);
+        }
+        if (config.seekDetection) {
+            mediaSession.enableSeekDetection(config.seekDetection);
+        }
+        if (config.stallDetection) {
+            mediaSession.enableStallDetection(config.stallDetection);
+        }
+        if (config.longPauseDetection) {
+            mediaSession.enableLongPauseDetection(config.longPauseDetection);
+        }
+        mediaSession.persistence = config.persistence;
+
+        return mediaSession;
+    }
+
+    /**
+     * Restores a Media Session from the output of `serialize`, i.e. after a page reload.
+     * The restored session keeps its `sessionId` and all accumulated summary metrics.
+     *
+     * If the session was saved longer ago than `resumeWindow`, it is finalized
+     * with a Session Summary instead and `undefined` is returned. A session saved
+     * by an incompatible version of the SDK is reported via the mParticle logger
+     * and `undefined` is returned.
+     *
+     * ```typescript
+     * const mediaSession =
+     *     MediaSession.restore(mParticle, savedSession, { logPageEvent: true }) ||
+     *     MediaSession.create(mParticle, { content, logPageEvent: true });
+     * ```
+     * @param mparticleInstance Your mParticle global object
+     * @param serialized An object returned by `serialize`
+     * @param options An object representing [[RestoreOptions]]
+     */
+    static restore(
+        mparticleInstance: MpSDKInstance,
+        serialized: SerializedMediaSession,
+        options: RestoreOptions = {},
+    ): MediaSession | undefined {
+        if (serialized.version !== SerializationVersion) {
+            mparticleInstance.logger(
+                `Unable to restore media session: unsupported version ${serialized.version}`,
+            );
+            return undefined;
+        }
+
+        const mediaSession = MediaSession.create(mparticleInstance, {
+            ...options,
+            content: serialized.content,
+        });
+        mediaSession.loadSerialized(serialized);
+
+        const resumeWindow = options.resumeWindow ?? 30 * 60 * 1000;
+        if (mediaSession.now() - serialized.savedAt > resumeWindow) {
+            const lastActivityTimestamp = serialized.mediaSessionEndTimestamp;
+            mediaSession.stateMachine.restore(PlaybackState.Idle);
+            mediaSession.storePauseTime(lastActivityTimestamp);
+            mediaSession.logAbandoned(lastActivityTimestamp);
+            if (mediaSession.programIndex) {
+                mediaSession.logProgramSummary(lastActivityTimestamp);
+            }
+            mediaSession.mediaSessionEndTimestamp = lastActivityTimestamp;
+            mediaSession.logSessionSummary();
+            mediaSession.persist();
+            return undefined;
+        }
+
+        mediaSession.updateHeartbeat();
+        mediaSession.updateLongPauseTimer();
+        return mediaSession;
+    }
+
+    /**
+     * Restores the Media Session saved in `options.persistence.storage`.
+     * Returns `undefined` if no session was saved or if it expired.
+     *
+     * ```typescript
+     * const persistence = { storage: window.localStorage };
+     * const mediaSession =
+     *     MediaSession.restoreFromStorage(mParticle, { persistence }) ||
+     *     MediaSession.create(mParticle, { content, persistence });
+     * ```
+     * @param mparticleInstance Your mParticle global object
+     * @param options An object representing [[RestoreOptions]], including `persistence`
+     */
+    static restoreFromStorage(
+        mparticleInstance: MpSDKInstance,
+        options: RestoreOptions & { persistence: PersistenceOptions },
+    ): MediaSession | undefined {
+        const { storage, key = DefaultStorageKey } = options.persistence;
+
+        let serialized: SerializedMediaSession;
+        try {
+            const item = storage.getItem(key);
+            if (!item) {
+                return undefined;
+            }
+            serialized = JSON.parse(item);
+        } catch (error) {
+            mparticleInstance.logger(
+                `Unable to restore media session: ${error}`,
+            );
+            return undefined;
+        }
+
+        return MediaSession.restore(mparticleInstance, serialized, options);
+    }
+
+    /**
+     * Returns a serializable representation of the session that can be passed to
+     * `MediaSession.restore`. Listeners and settings are not included.
+     */
+    serialize(): SerializedMediaSession {
+        return {
+            version: SerializationVersion,
+            savedAt: this.now(),
+            sessionId: this.sessionId,
+            content: {
+                contentId: this.contentId,
+                title: this.title,
+                duration: this.duration,
+                contentType: this.contentType,
+                streamType: this.streamType,
+            },
+            playbackState: this.playbackState,
+            suspendedStates: this.stateMachine.getSuspendedStates(),
+            currentPlayheadPosition: this.currentPlayheadPosition,
+            playheadContentTime: this.playheadContentTime,
+            currentQoS: { ...this.currentQoS },
+            adBreak: this.adBreak && { ...this.adBreak },
+            adContent: this.adContent && { ...this.adContent },
+            segment: this.segment && { ...this.segment },
+            mediaSessionStartTimestamp: this.mediaSessionStartTimestamp,
+            mediaSessionEndTimestamp: this.mediaSessionEndTimestamp,
+            storedPlaybackTime: this.mediaContentTimeSpent(),
+            mediaContentComplete: this.mediaContentComplete,
+            reachedMilestones: [...this.reachedMilestones],
+            mediaSessionSegmentTotal: this.mediaSessionSegmentTotal,
+            mediaTotalAdTimeSpent: this.mediaTotalAdTimeSpent,
+            mediaSessionAdTotal: this.mediaSessionAdTotal,
+            mediaSessionAdObjects: [...this.mediaSessionAdObjects],
+            adBreakAdsStarted: this.adBreakAdsStarted,
+            adBreakAdsCompleted: this.adBreakAdsCompleted,
+            adBreakAdsSkipped: this.adBreakAdsSkipped,
+            bufferStartTimestamp: this.bufferStartTimestamp,
+            bufferStartPercent: this.bufferStartPercent,
+            bufferStartedBeforePlayback: this.bufferStartedBeforePlayback,
+            bufferStartedInAd: this.bufferStartedInAd,
+            contentPlaybackStarted: this.contentPlaybackStarted,
+            startupBufferTotal: this.startupBufferTotal,
+            startupBufferTimeSpent: this.startupBufferTimeSpent,
+            rebufferTotal: this.rebufferTotal,
+            rebufferTimeSpent: this.rebufferTimeSpent,
+            longestRebuffer: this.longestRebuffer,
+            mediaSessionErrorTotal: this.mediaSessionErrorTotal,
+            mediaSessionFatalErrorTotal: this.mediaSessionFatalErrorTotal,
+            currentRendition: this.currentRendition && {
+                ...this.currentRendition,
+            },
+            renditionStartContentTime: this.renditionStartContentTime,
+            renditionTimeSpent: { ...this.renditionTimeSpent },
+            renditionBitrateTime: this.renditionBitrateTime,
+            renditionUpshifts: this.renditionUpshifts,
+            renditionDownshifts: this.renditionDownshifts,
+            renditionLateralSwitches: this.renditionLateralSwitches,
+            seekStartTimestamp: this.seekStartTimestamp,
+            seekStartPosition: this.seekStartPosition,
+            seekForwardTotal: this.seekForwardTotal,
+            seekBackwardTotal: this.seekBackwardTotal,
+            seekTimeSpent: this.seekTimeSpent,
+            stallInferred: this.stallInferred,
+            lastPlayheadAdvancePosition: this.lastPlayheadAdvance?.position,
+            watchedRanges: this.watchedRanges.toArray(),
+            lastWatchedPosition: this.lastWatchedPosition && {
+                ...this.lastWatchedPosition,
+            },
+            pauseStartTimestamp: this.pauseStartTimestamp,
+            pauseSuspendedTimestamp: this.pauseSuspendedTimestamp,
+            longPauseLogged: this.longPauseLogged,
+            pauseTotal: this.pauseTotal,
+            pauseTimeSpent: this.pauseTimeSpent,
+            longestPause: this.longestPause,
+            resumeTotal: this.resumeTotal,
+            playbackRate: this.playbackRate,
+            playbackRateStartContentTime: this.playbackRateStartContentTime,
+            playbackRateTimeSpent: { ...this.playbackRateTimeSpent },
+            contentTimeConsumed: this.contentTimeConsumed,
+            liveWindow: this.currentLiveWindow(),
+            atLiveEdge: this.atLiveEdge,
+            programIndex: this.programIndex,
+            programStartTimestamp: this.programStartTimestamp,
+            programStartContentTime: this.programStartContentTime,
+            programStartAdTime: this.programStartAdTime,
+        };
+    }
+
+    private loadSerialized(serialized: SerializedMediaSession) {
+        this._sessionId = serialized.sessionId;
+        this.stateMachine.restore(
+            serialized.playbackState,
+            serialized.suspendedStates,
+        );
+        this.currentPlayheadPosition = serialized.currentPlayheadPosition;
+        this.playheadContentTime = serialized.playheadContentTime ?? 0;
+        this.currentQoS = { ...serialized.currentQoS };
+        this.adBreak = serialized.adBreak;
+        this.adContent = serialized.adContent;
+        this.segment = serialized.segment;
+        this.mediaSessionStartTimestamp = serialized.mediaSessionStartTimestamp;
+        this.mediaSessionEndTimestamp = serialized.mediaSessionEndTimestamp;
+        this.storedPlaybackTime = serialized.storedPlaybackTime;
+        this.currentPlaybackStartTimestamp =
+            serialized.playbackState === PlaybackState.Playing
+                ? this.monotonicNow()
+                : undefined;
+        this.mediaContentComplete = serialized.mediaContentComplete;
+        this.reachedMilestones = [...serialized.reachedMilestones];
+        this.mediaSessionSegmentTotal = serialized.mediaSessionSegmentTotal;
+        this.mediaTotalAdTimeSpent = serialized.mediaTotalAdTimeSpent;
+        this.mediaSessionAdTotal = serialized.mediaSessionAdTotal;
+        this.mediaSessionAdObjects = [...serialized.mediaSessionAdObjects];
+        this.adBreakAdsStarted = serialized.adBreakAdsStarted;
+        this.adBreakAdsCompleted = serialized.adBreakAdsCompleted;
+        this.adBreakAdsSkipped = serialized.adBreakAdsSkipped;
+        this.bufferStartTimestamp = serialized.bufferStartTimestamp;
+        this.bufferStartPercent = serialized.bufferStartPercent;
+        this.bufferStartedBeforePlayback = !!serialized.bufferStartedBeforePlayback;
+        this.bufferStartedInAd = !!serialized.bufferStartedInAd;
+        this.contentPlaybackStarted = !!serialized.contentPlaybackStarted;
+        this.startupBufferTotal = serialized.startupBufferTotal ?? 0;
+        this.startupBufferTimeSpent = serialized.startupBufferTimeSpent ?? 0;
+        this.rebufferTotal = serialized.rebufferTotal ?? 0;
+        this.rebufferTimeSpent = serialized.rebufferTimeSpent ?? 0;
+        this.longestRebuffer = serialized.longestRebuffer ?? 0;
+        this.mediaSessionErrorTotal = serialized.mediaSessionErrorTotal ?? 0;
+        this.mediaSessionFatalErrorTotal =
+            serialized.mediaSessionFatalErrorTotal ?? 0;
+        this.currentRendition = serialized.currentRendition;
+        this.renditionStartContentTime =
+            serialized.renditionStartContentTime ?? 0;
+        this.renditionTimeSpent = { ...serialized.renditionTimeSpent };
+        this.renditionBitrateTime = serialized.renditionBitrateTime ?? 0;
+        this.renditionUpshifts = serialized.renditionUpshifts ?? 0;
+        this.renditionDownshifts = serialized.renditionDownshifts ?? 0;
+        this.renditionLateralSwitches =
+            serialized.renditionLateralSwitches ?? 0;
+        this.seekStartTimestamp = serialized.seekStartTimestamp;
+        this.seekStartPosition = serialized.seekStartPosition;
+        this.seekForwardTotal = serialized.seekForwardTotal ?? 0;
+        this.seekBackwardTotal = serialized.seekBackwardTotal ?? 0;
+        this.seekTimeSpent = serialized.seekTimeSpent ?? 0;
+        this.stallInferred = !!serialized.stallInferred;
+        this.lastPlayheadAdvance =
+            serialized.lastPlayheadAdvancePosition !== undefined
+                ? {
+                      position: serialized.lastPlayheadAdvancePosition,
+                      timestamp: this.monotonicNow(),
+                  }
+                : undefined;
+        this.watchedRanges = new WatchedRanges(serialized.watchedRanges);
+        this.lastWatchedPosition = serialized.lastWatchedPosition;
+        this.pauseStartTimestamp = serialized.pauseStartTimestamp;
+        this.pauseSuspendedTimestamp = serialized.pauseSuspendedTimestamp;
+        this.longPauseLogged = !!serialized.longPauseLogged;
+        this.pauseTotal = serialized.pauseTotal ?? 0;
+        this.pauseTimeSpent = serialized.pauseTimeSpent ?? 0;
+        this.longestPause = serialized.longestPause ?? 0;
+        this.resumeTotal = serialized.resumeTotal ?? 0;
+        this.playbackRate = serialized.playbackRate;
+        this.playbackRateStartContentTime =
+            serialized.playbackRateStartContentTime ?? 0;
+        this.playbackRateTimeSpent = { ...serialized.playbackRateTimeSpent };
+        this.contentTimeConsumed = serialized.contentTimeConsumed ?? 0;
+        this.liveWindow = serialized.liveWindow;
+        this.liveWindowTimestamp = this.monotonicNow();
+        this.atLiveEdge = serialized.atLiveEdge;
+        this.programIndex = serialized.programIndex ?? 0;
+        this.programStartTimestamp =
+            serialized.programStartTimestamp ??
+            serialized.mediaSessionStartTimestamp;
+        this.programStartContentTime = serialized.programStartContentTime ?? 0;
+        this.programStartAdTime = serialized.programStartAdTime ?? 0;
+    }
+
+    /**
+     * Saves the session to the configured storage, or removes it once the session has ended
+     */
+    private persist() {
+        if (!this.persistence) {
+            return;
+        }
+
+        const { storage, key = DefaultStorageKey } = this.persistence;
+        try {
+            if (
+                this.playbackState === PlaybackState.Idle ||
+                this.sessionSummarySent
+            ) {
+                storage.removeItem(key);
+            } else {
+                storage.setItem(key, JSON.stringify(this.serialize()));
+            }
+        } catch (error) {
+            this.mparticleInstance.logger(
+                `Unable to persist media session: ${error}`,
+            );
+        }
+    }
+
+    /**
+     * Returns the wall clock time used for timestamps
+     */
+    private now(): number {
+        return this.clock.now();
+    }
+
+    /**
+     * Returns the monotonic time used to measure elapsed time
+     */
+    private monotonicNow(): number {
+        return getMonotonicTime(this.clock);
     }
 
     /**
@@ -159,6 +760,9 @@ export class MediaSession {
         // Set event option based on options or current state
         this.currentPlayheadPosition =
             options?.currentPlayheadPosition || this.currentPlayheadPosition;
+        if (options?.currentPlayheadPosition) {
+            this.playheadContentTime = this.mediaContentTimeConsumed();
+        }
 
         // Use the custom attributes on options or empty object for eventAttributes
         let eventAttributes = options?.customAttributes || {};
@@ -176,7 +780,7 @@ export class MediaSession {
             customAttributes: this.customAttributes
         };
 
-        return new MediaEvent(
+        const event = new MediaEvent(
             eventType,
             this.title,
             this.contentId,
@@ -185,7 +789,72 @@ export class MediaSession {
             this.streamType,
             this.sessionId,
             options,
+            this.idGenerator,
         );
+        event.playbackRate = this.playbackRate;
+
+        const liveLatency = this.liveLatency();
+        if (liveLatency !== undefined) {
+            event.liveLatency = liveLatency;
+            event.isAtLiveEdge = liveLatency <= this.liveEdgeTolerance;
+        }
+
+        return event;
+    }
+
+    /**
+     * Moves the session to the Playback State that follows an event type.
+     * Returns false if the event should not be logged
+     * @param eventType MediaEventType about to be logged
+     */
+    private transition(eventType: MediaEventType): boolean {
+        if (!this.isLegalTransition(eventType)) {
+            const message = `Cannot log ${getNameFromType(
+                eventType,
+            )} while playback state is ${this.playbackState}`;
+
+            switch (this.illegalTransitionPolicy) {
+                case IllegalTransitionPolicy.Drop:
+                    return false;
+                case IllegalTransitionPolicy.Throw:
+                    throw new Error(message);
+                default:
+                    this.mparticleInstance.logger(message);
+            }
+        }
+
+        const previousState = this.playbackState;
+        this.advanceLastPlayheadUpdate();
+        this.stateMachine.transition(eventType);
+        if (
+            this.lastPlayheadAdvance &&
+            previousState !== PlaybackState.Playing &&
+            this.playbackState === PlaybackState.Playing
+        ) {
+            this.lastPlayheadAdvance.timestamp = this.monotonicNow();
+        }
+        this.updateHeartbeat();
+        return true;
+    }
+
+    private isLegalTransition(eventType: MediaEventType): boolean {
+        switch (eventType) {
+            case MediaEventType.SegmentStart:
+                if (this.segment) {
+                    return false;
+                }
+                break;
+            case MediaEventType.SegmentEnd:
+            case MediaEventType.SegmentSkip:
+                if (!this.segment) {
+                    return false;
+                }
+                break;
+            default:
+                break;
+        }
+
+        return this.stateMachine.isLegal(eventType);
     }
 
     /**
@@ -193,8 +862,8 @@ export class MediaSession {
      * @param event MediaEvent
      */
     private logEvent(event: MediaEvent) {
-        this.mediaSessionEndTimestamp = Date.now();
-        if (this.mediaContentCompleteLimit !== 100) {
+        this.mediaSessionEndTimestamp = this.now();
+        if (this.mediaContentCompleteLimit !== 100 && !this.isLive()) {
             if (
                 this.duration &&
                 this.currentPlayheadPosition &&
@@ -205,18 +874,69 @@ export class MediaSession {
             }
         }
 
-        this.mediaEventListener(event);
+        this.emit(event);
+
+        this.middleware.run({ event }, sent => {
+            if (
+                !sent.pageEvent &&
+                this.logPageEvent &&
+                sent.event.eventType !== MediaEventType.UpdatePlayheadPosition
+            ) {
+                sent.pageEvent = sent.event.toPageEvent();
+            }
+
+            if (this.batcher) {
+                this.batcher.add(sent);
+            } else {
+                this.send(sent);
+            }
+        });
+
+        this.logMilestones();
+        this.persist();
+    }
 
+    /**
+     * Sends a MediaEvent and its page event form to Core SDK
+     * @param context MediaMiddlewareContext
+     */
+    private send({ event, pageEvent }: MediaMiddlewareContext) {
         if (this.logMediaEvent) {
             this.mparticleInstance.logBaseEvent(event);
         }
 
-        if (this.logPageEvent) {
-            if (event.eventType !== MediaEventType.UpdatePlayheadPosition) {
-                const mpEvent = event.toPageEvent();
-                this.mparticleInstance.logBaseEvent(mpEvent);
-            }
+        if (pageEvent) {
+            this.mparticleInstance.logBaseEvent(pageEvent);
+        }
+    }
+
+    /**
+     * Logs a Milestone event for each progress milestone the playhead has
+     * reached for the first time in the media session, unless the session has ended
+     */
+    private logMilestones() {
+        if (
+            !this.duration ||
+            !this.currentPlayheadPosition ||
+            this.isLive() ||
+            this.playbackState === PlaybackState.Idle
+        ) {
+            return;
         }
+
+        const progress = (this.currentPlayheadPosition / this.duration) * 100;
+        const milestones = this.progressMilestones.filter(
+            milestone =>
+                progress >= milestone &&
+                this.reachedMilestones.indexOf(milestone) === -1,
+        );
+
+        this.reachedMilestones.push(...milestones);
+        milestones.forEach(milestone => {
+            const event = this.createMediaEvent(MediaEventType.Milestone);
+            event.milestonePercent = milestone;
+            this.logEvent(event);
+        });
     }
 
     /**
@@ -268,8 +988,23 @@ export class MediaSession {
      * @category Media
      */
     logMediaSessionStart(options?: Options) {
-        this._sessionId = uuid();
-        this.mediaSessionStartTimestamp = Date.now();
+        if (!this.transition(MediaEventType.SessionStart)) {
+            return;
+        }
+
+        this._sessionId = this.idGenerator();
+        this.reachedMilestones = [];
+        this.contentPlaybackStarted = false;
+        this.lastPlayheadUpdate = undefined;
+        this.lastPlayheadAdvance = undefined;
+        this.lastWatchedPosition = undefined;
+        this.playRequestedTimestamp = this.monotonicNow();
+        this.playRequestedPosition = this.currentPlayheadPosition || 0;
+        this.mediaSessionStartTimestamp = this.now();
+        this.programIndex = 0;
+        this.programStartTimestamp = this.mediaSessionStartTimestamp;
+        this.programStartContentTime = this.mediaContentTimeSpent();
+        this.programStartAdTime = this.mediaTotalAdTimeSpent;
         const event = this.createMediaEvent(
             MediaEventType.SessionStart,
             options,
@@ -284,6 +1019,17 @@ export class MediaSession {
      * @category Media
      */
     logMediaSessionEnd(options?: Options) {
+        if (!this.transition(MediaEventType.SessionEnd)) {
+            return;
+        }
+
+        this.storePlaybackTime();
+        this.storePauseTime();
+        this.logAbandoned();
+        if (this.programIndex) {
+            this.logProgramSummary();
+        }
+
         const event = this.createMediaEvent(MediaEventType.SessionEnd, options);
 
         this.logEvent(event);
@@ -291,6 +1037,117 @@ export class MediaSession {
         this.logSessionSummary();
     }
 
+    /**
+     * Ends the media session if it is still active, stops the heartbeat and
+     * sends any batched events. Should be triggered when the player is torn down
+     * @returns A promise that resolves once batched events have been sent
+     * @category Media
+     */
+    dispose(): Promise<void> {
+        if (this.playbackState !== PlaybackState.Idle) {
+            this.logMediaSessionEnd();
+        }
+
+        this.disableHeartbeat();
+        this.disableLongPauseDetection();
+        return this.disableBatching();
+    }
+
+    /**
+     * Logs the Playlist Summary of the [[MediaPlaylist]] this session was the last
+     * of, through the listeners, middleware and batching of the session.
+     * Triggered by `MediaPlaylist.stop` once the session has ended
+     * @param options Custom Attributes holding the playlist metrics
+     * @category Media
+     */
+    logPlaylistSummary(options: Options) {
+        const event = this.createMediaEvent(
+            MediaEventType.PlaylistSummary,
+            options,
+        );
+
+        this.logEvent(event);
+    }
+
+    /**
+     * Ends any buffering event, ad, ad break and segment that is still open,
+     * in that order, logging their end and summary events flagged as abandoned
+     * @param endTimestamp Timestamp at which the open units ended
+     */
+    private logAbandoned(endTimestamp = this.now()) {
+        // tslint:disable-next-line: no-any
+        const customAttributes: Record<string, any> = {};
+        customAttributes[ValidMediaAttributeKeys.abandoned] = true;
+        const options: Options = { customAttributes };
+
+        if (this.bufferStartTimestamp !== undefined) {
+            const event = this.createMediaEvent(
+                MediaEventType.BufferEnd,
+                options,
+            );
+            event.bufferDuration = endTimestamp - this.bufferStartTimestamp;
+            event.bufferPercent = this.bufferStartPercent;
+            event.bufferPosition = this.currentPlayheadPosition;
+            this.storeBufferTime(endTimestamp);
+
+            this.logEvent(event);
+        }
+
+        if (
+            this.adContent?.adStartTimestamp &&
+            !this.adContent.adEndTimestamp
+        ) {
+            this.adContent.adEndTimestamp = endTimestamp;
+            this.adContent.adAbandoned = true;
+            this.adContent.adCompleted = false;
+            this.adContent.adSkipped = false;
+            this.mediaTotalAdTimeSpent +=
+                this.adContent.adEndTimestamp - this.adContent.adStartTimestamp;
+
+            const event = this.createMediaEvent(MediaEventType.AdEnd, options);
+            event.adContent = this.adContent;
+
+            this.logEvent(event);
+            this.logAdSummary();
+        }
+
+        if (
+            this.adBreak?.adBreakStartTimestamp &&
+            !this.adBreak.adBreakEndTimestamp
+        ) {
+            this.adBreak.adBreakEndTimestamp = endTimestamp;
+            this.adBreak.adBreakAbandoned = true;
+
+            const event = this.createMediaEvent(
+                MediaEventType.AdBreakEnd,
+                options,
+            );
+            event.adBreak = this.adBreak;
+
+            this.logEvent(event);
+            this.logAdBreakSummary();
+        }
+
+        if (
+            this.segment?.segmentStartTimestamp &&
+            !this.segment.segmentEndTimestamp
+        ) {
+            this.segment.segmentEndTimestamp = endTimestamp;
+            this.segment.segmentAbandoned = true;
+            this.segment.segmentCompleted = false;
+            this.segment.segmentSkipped = false;
+
+            const event = this.createMediaEvent(
+                MediaEventType.SegmentEnd,
+                options,
+            );
+            event.segment = this.segment;
+
+            this.logEvent(event);
+            this.logSegmentSummary();
+        }
+    }
+
     /**
      * Logs when your media content has ended, usually before a post-roll ad.
      * Must be fired between MediaSessionStart and MediaSessionEnd
@@ -298,12 +1155,66 @@ export class MediaSession {
      * @category Media
      */
     logMediaContentEnd(options?: Options) {
+        if (!this.transition(MediaEventType.ContentEnd)) {
+            return;
+        }
+
         this.mediaContentComplete = true;
+        this.storePauseTime();
         const event = this.createMediaEvent(MediaEventType.ContentEnd, options);
 
         this.logEvent(event);
     }
 
+    /**
+     * Logs a program boundary on a `Linear` channel without ending the session.
+     * A Program Summary is logged for the previous program, and following events
+     * carry the content metadata of the new program. Progress milestones, content
+     * completion and watched ranges start over for the new program. Once the program
+     * has changed, a Program Summary is also logged for the last program when the
+     * session ends, and the Session Summary reports the content ID and title of the
+     * last program. Before the session starts, only the content metadata is updated
+     *
+     * ```typescript
+     * mediaSession.logProgramChange({
+     *     contentId: 'evening-news',
+     *     title: 'Evening News',
+     *     duration: 1800000,
+     * });
+     * ```
+     * @param newContent An object representing the [[ProgramContent]] of the new program
+     * @param options Optional Custom Attributes
+     * @category Media
+     */
+    logProgramChange(newContent: ProgramContent, options?: Options) {
+        const active = this.playbackState !== PlaybackState.Idle;
+        if (active) {
+            this.logProgramSummary();
+        }
+
+        this._contentId = newContent.contentId;
+        this._title = newContent.title;
+        this.duration = newContent.duration;
+        if (!active) {
+            return;
+        }
+
+        this.programIndex += 1;
+        this.programStartTimestamp = this.now();
+        this.programStartContentTime = this.mediaContentTimeSpent();
+        this.programStartAdTime = this.mediaTotalAdTimeSpent;
+        this.reachedMilestones = [];
+        this.mediaContentComplete = false;
+        this.watchedRanges = new WatchedRanges();
+        this.lastWatchedPosition = undefined;
+
+        const event = this.createMediaEvent(
+            MediaEventType.ProgramChange,
+            options,
+        );
+        this.logEvent(event);
+    }
+
     /**
      * Logs when an Ad Break pod has started
      * @param adBreakContent An object representing an [[AdBreak]] (collection of ads)
@@ -311,7 +1222,15 @@ export class MediaSession {
      * @category Advertising
      */
     logAdBreakStart(adBreakContent: AdBreak, options?: Options) {
+        if (!this.transition(MediaEventType.AdBreakStart)) {
+            return;
+        }
+
         this.adBreak = adBreakContent;
+        this.adBreak.adBreakStartTimestamp = this.now();
+        this.adBreakAdsStarted = 0;
+        this.adBreakAdsCompleted = 0;
+        this.adBreakAdsSkipped = 0;
 
         const event = this.createMediaEvent(
             MediaEventType.AdBreakStart,
@@ -321,6 +1240,7 @@ export class MediaSession {
         event.adBreak = adBreakContent;
 
         this.logEvent(event);
+        this.updatePauseSuspension();
     }
 
     /**
@@ -329,11 +1249,24 @@ export class MediaSession {
      * @category Advertising
      */
     logAdBreakEnd(options?: Options) {
+        if (!this.transition(MediaEventType.AdBreakEnd)) {
+            return;
+        }
+
+        if (this.adBreak?.adBreakStartTimestamp) {
+            this.adBreak.adBreakEndTimestamp = this.now();
+            this.adBreak.adBreakAbandoned = !!(
+                this.adContent?.adStartTimestamp &&
+                !this.adContent.adEndTimestamp
+            );
+        }
+
         const event = this.createMediaEvent(MediaEventType.AdBreakEnd, options);
         event.adBreak = this.adBreak;
 
         this.logEvent(event);
-        this.adBreak = undefined;
+        this.logAdBreakSummary();
+        this.updatePauseSuspension();
     }
 
     /**
@@ -343,15 +1276,23 @@ export class MediaSession {
      * @category Advertising
      */
     logAdStart(adContent: AdContent, options?: Options) {
+        if (!this.transition(MediaEventType.AdStart)) {
+            return;
+        }
+
         this.mediaSessionAdTotal += 1;
         this.mediaSessionAdObjects.push(adContent.id);
+        if (this.adBreak) {
+            this.adBreakAdsStarted += 1;
+        }
         this.adContent = adContent;
-        this.adContent.adStartTimestamp = Date.now();
+        this.adContent.adStartTimestamp = this.now();
 
         const event = this.createMediaEvent(MediaEventType.AdStart, options);
         event.adContent = adContent;
 
         this.logEvent(event);
+        this.updatePauseSuspension();
     }
 
     /**
@@ -360,10 +1301,18 @@ export class MediaSession {
      * @category Advertising
      */
     logAdEnd(options?: Options) {
+        if (!this.transition(MediaEventType.AdEnd)) {
+            return;
+        }
+
         if (this.adContent?.adStartTimestamp) {
-            this.adContent!.adEndTimestamp = Date.now();
+            this.adContent!.adEndTimestamp = this.now();
             this.adContent!.adCompleted = true;
             this.adContent!.adSkipped = false;
+            this.adContent!.adQuartile = 4;
+            if (this.adBreak) {
+                this.adBreakAdsCompleted += 1;
+            }
             this.mediaTotalAdTimeSpent +=
                 this.adContent!.adEndTimestamp! -
                 this.adContent!.adStartTimestamp!;
@@ -373,6 +1322,7 @@ export class MediaSession {
 
         this.logEvent(event);
         this.logAdSummary();
+        this.updatePauseSuspension();
     }
 
     /**
@@ -381,10 +1331,17 @@ export class MediaSession {
      * @category Advertising
      */
     logAdSkip(options?: Options) {
+        if (!this.transition(MediaEventType.AdSkip)) {
+            return;
+        }
+
         if (this.adContent?.adStartTimestamp) {
-            this.adContent!.adEndTimestamp = Date.now();
+            this.adContent!.adEndTimestamp = this.now();
             this.adContent!.adSkipped = true;
             this.adContent!.adCompleted = false;
+            if (this.adBreak) {
+                this.adBreakAdsSkipped += 1;
+            }
             this.mediaTotalAdTimeSpent +=
                 this.adContent!.adEndTimestamp -
                 this.adContent!.adStartTimestamp;
@@ -394,19 +1351,67 @@ export class MediaSession {
 
         this.logEvent(event);
         this.logAdSummary();
+        this.updatePauseSuspension();
     }
 
     /**
-     * Logs when a single ad is clicked on by a visitor
+     * Logs the playhead position within the current ad. Logs an Ad First Quartile,
+     * Ad Midpoint or Ad Third Quartile event when the position passes 25%, 50% or
+     * 75% of the ad's duration for the first time
+     * @param adPlayheadPosition The playhead position within the ad
      * @param options Optional Custom Attributes
      * @category Advertising
      */
-    logAdClick(adContent: AdContent, options?: Options) {
-        this.adContent = adContent;
-        const event = this.createMediaEvent(MediaEventType.AdClick, options);
-        event.adContent = this.adContent;
+    logAdPlayheadPosition(adPlayheadPosition: number, options?: Options) {
+        if (!this.adContent) {
+            return;
+        }
 
-        this.logEvent(event);
+        this.adContent.adPlayheadPosition = adPlayheadPosition;
+        if (!this.adContent.duration) {
+            return;
+        }
+
+        const reachedQuartile = Math.min(
+            Math.floor((adPlayheadPosition / this.adContent.duration) * 4),
+            3,
+        );
+        const previousQuartile = this.adContent.adQuartile || 0;
+        if (reachedQuartile <= previousQuartile) {
+            return;
+        }
+
+        this.adContent.adQuartile = reachedQuartile;
+        for (
+            let quartile = previousQuartile + 1;
+            quartile <= reachedQuartile;
+            quartile++
+        ) {
+            const event = this.createMediaEvent(
+                AdQuartileEventTypes[quartile - 1],
+                options,
+            );
+            event.adContent = this.adContent;
+
+            this.logEvent(event);
+        }
+    }
+
+    /**
+     * Logs when a single ad is clicked on by a visitor
+     * @param options Optional Custom Attributes
+     * @category Advertising
+     */
+    logAdClick(adContent: AdContent, options?: Options) {
+        if (!this.transition(MediaEventType.AdClick)) {
+            return;
+        }
+
+        this.adContent = adContent;
+        const event = this.createMediaEvent(MediaEventType.AdClick, options);
+        event.adContent = this.adContent;
+
+        this.logEvent(event);
     }
 
     /**
@@ -423,6 +1428,14 @@ export class MediaSession {
         bufferPosition: number,
         options?: Options,
     ) {
+        if (!this.transition(MediaEventType.BufferStart)) {
+            return;
+        }
+
+        this.bufferStartTimestamp = this.now();
+        this.bufferStartPercent = bufferPercent;
+        this.bufferStartedBeforePlayback = !this.contentPlaybackStarted;
+        this.bufferStartedInAd = this.isInAdBreak();
         const event = this.createMediaEvent(
             MediaEventType.BufferStart,
             options,
@@ -449,6 +1462,11 @@ export class MediaSession {
         bufferPosition: number,
         options?: Options,
     ) {
+        if (!this.transition(MediaEventType.BufferEnd)) {
+            return;
+        }
+
+        this.storeBufferTime(this.now());
         const event = this.createMediaEvent(MediaEventType.BufferEnd, options);
 
         event.bufferDuration = bufferDuration;
@@ -458,18 +1476,104 @@ export class MediaSession {
         this.logEvent(event);
     }
 
+    /**
+     * Adds the current buffering event to the startup buffering or rebuffering
+     * metrics and clears it. Buffering during an ad is not counted
+     * @param endTimestamp Timestamp at which the buffering event ended
+     */
+    private storeBufferTime(endTimestamp: number) {
+        if (
+            this.bufferStartTimestamp !== undefined &&
+            !this.bufferStartedInAd
+        ) {
+            const bufferTime = endTimestamp - this.bufferStartTimestamp;
+            if (this.bufferStartedBeforePlayback) {
+                this.startupBufferTotal += 1;
+                this.startupBufferTimeSpent += bufferTime;
+            } else {
+                this.rebufferTotal += 1;
+                this.rebufferTimeSpent += bufferTime;
+                this.longestRebuffer = Math.max(
+                    this.longestRebuffer,
+                    bufferTime,
+                );
+            }
+        }
+
+        this.bufferStartTimestamp = undefined;
+        this.bufferStartPercent = undefined;
+    }
+
+    /**
+     * Returns true while an ad or ad break is playing
+     */
+    private isInAdBreak(): boolean {
+        return (
+            !!(
+                this.adBreak?.adBreakStartTimestamp &&
+                !this.adBreak.adBreakEndTimestamp
+            ) ||
+            !!(
+                this.adContent?.adStartTimestamp &&
+                !this.adContent.adEndTimestamp
+            )
+        );
+    }
+
     /**
      * Logs a play event
      * @param options Optional Custom Attributes
      * @category Media
      */
     logPlay(options?: Options) {
-        if (!this.currentPlaybackStartTimestamp) {
-            this.currentPlaybackStartTimestamp = Date.now();
+        if (!this.transition(MediaEventType.Play)) {
+            return;
+        }
+
+        if (this.currentPlaybackStartTimestamp === undefined) {
+            this.currentPlaybackStartTimestamp = this.monotonicNow();
+        }
+        if (this.pauseStartTimestamp !== undefined) {
+            this.resumeTotal += 1;
+            this.storePauseTime();
         }
 
         const event = this.createMediaEvent(MediaEventType.Play, options);
         this.logEvent(event);
+
+        this.startContentPlayback();
+    }
+
+    /**
+     * Marks the moment the visitor asked for playback, i.e. clicked the play button.
+     * The startup time is measured from here instead of from `logMediaSessionStart`
+     * @category Quality of Service
+     */
+    markPlayRequested() {
+        this.playRequestedTimestamp = this.monotonicNow();
+        this.playRequestedPosition = this.currentPlayheadPosition || 0;
+    }
+
+    /**
+     * Marks the content as started on the first play or playhead advance, and
+     * logs the time since playback was requested as the QoS startup time
+     */
+    private startContentPlayback() {
+        if (this.contentPlaybackStarted) {
+            return;
+        }
+
+        this.contentPlaybackStarted = true;
+        if (
+            this.measureStartupTime &&
+            this.playRequestedTimestamp !== undefined &&
+            !this.currentQoS.startupTime
+        ) {
+            this.logQoS({
+                startupTime: this.monotonicNow() - this.playRequestedTimestamp,
+            });
+        }
+        this.playRequestedTimestamp = undefined;
     }
 
     /**
@@ -478,15 +1582,147 @@ export class MediaSession {
      * @category Media
      */
     logPause(options?: Options) {
-        if (this.currentPlaybackStartTimestamp) {
-            this.storedPlaybackTime =
-                this.storedPlaybackTime +
-                (Date.now() - this.currentPlaybackStartTimestamp);
-            this.currentPlaybackStartTimestamp = undefined;
+        if (!this.transition(MediaEventType.Pause)) {
+            return;
+        }
+
+        this.storePlaybackTime();
+        if (this.pauseStartTimestamp === undefined) {
+            this.pauseStartTimestamp = this.now();
+            this.pauseTotal += 1;
+            this.longPauseLogged = false;
         }
 
         const event = this.createMediaEvent(MediaEventType.Pause, options);
         this.logEvent(event);
+
+        this.updateLongPauseTimer();
+    }
+
+    /**
+     * Adds the duration of the current pause to the pause metrics. Time spent
+     * in an ad or ad break that interrupted the pause is not counted
+     * @param endTimestamp Timestamp at which the pause ended
+     */
+    private storePauseTime(endTimestamp = this.now()) {
+        if (this.pauseStartTimestamp === undefined) {
+            return;
+        }
+
+        const pauseDuration =
+            (this.pauseSuspendedTimestamp ?? endTimestamp) -
+            this.pauseStartTimestamp;
+        this.pauseTimeSpent += pauseDuration;
+        this.longestPause = Math.max(this.longestPause, pauseDuration);
+        this.pauseStartTimestamp = undefined;
+        this.pauseSuspendedTimestamp = undefined;
+        this.updateLongPauseTimer();
+    }
+
+    /**
+     * Stops the clock of the current pause while an ad or ad break is playing,
+     * and moves the start of the pause forward by the ad time once it ends
+     */
+    private updatePauseSuspension() {
+        if (this.pauseStartTimestamp === undefined) {
+            return;
+        }
+
+        if (this.isInAdBreak()) {
+            if (this.pauseSuspendedTimestamp === undefined) {
+                this.pauseSuspendedTimestamp = this.now();
+            }
+        } else if (this.pauseSuspendedTimestamp !== undefined) {
+            this.pauseStartTimestamp +=
+                this.now() - this.pauseSuspendedTimestamp;
+            this.pauseSuspendedTimestamp = undefined;
+        }
+        this.updateLongPauseTimer();
+    }
+
+    /**
+     * Logs a Long Pause event once a pause lasts longer than the threshold,
+     * i.e. to measure when visitors walk away from the content
+     *
+     * ```typescript
+     * mediaSession.enableLongPauseDetection({ threshold: 60000 });
+     * ```
+     * @param longPauseDetection An object representing [[LongPauseOptions]]
+     * @category Media
+     */
+    enableLongPauseDetection(longPauseDetection: LongPauseOptions = {}) {
+        this.disableLongPauseDetection();
+        this.longPauseDetection = longPauseDetection;
+        this.updateLongPauseTimer();
+    }
+
+    /**
+     * Stops logging Long Pause events
+     * @category Media
+     */
+    disableLongPauseDetection() {
+        this.stopLongPauseTimer();
+        this.longPauseDetection = undefined;
+    }
+
+    private updateLongPauseTimer() {
+        if (!this.longPauseDetection) {
+            return;
+        }
+
+        if (
+            this.pauseStartTimestamp === undefined ||
+            this.pauseSuspendedTimestamp !== undefined ||
+            this.longPauseLogged
+        ) {
+            this.stopLongPauseTimer();
+        } else if (this.longPauseHandle === undefined) {
+            const { threshold = 60000 } = this.longPauseDetection;
+            const timers = this.longPauseDetection.timers || defaultTimers;
+            const pauseDuration = this.now() - this.pauseStartTimestamp;
+
+            this.longPauseHandle = timers.setInterval(
+                () => this.logLongPause(),
+                Math.max(threshold - pauseDuration, 0),
+            );
+        }
+    }
+
+    private stopLongPauseTimer() {
+        if (this.longPauseHandle !== undefined) {
+            const timers = this.longPauseDetection?.timers || defaultTimers;
+            timers.clearInterval(this.longPauseHandle);
+            this.longPauseHandle = undefined;
+        }
+    }
+
+    private logLongPause() {
+        this.longPauseLogged = true;
+        this.stopLongPauseTimer();
+        if (
+            this.pauseStartTimestamp === undefined ||
+            this.pauseSuspendedTimestamp !== undefined
+        ) {
+            return;
+        }
+
+        const event = this.createMediaEvent(MediaEventType.LongPause);
+        event.pauseDuration = this.now() - this.pauseStartTimestamp;
+
+        this.logEvent(event);
+    }
+
+    /**
+     * Adds the time since playback started to the stored playback time and
+     * stops the playback timer
+     */
+    private storePlaybackTime() {
+        if (this.currentPlaybackStartTimestamp !== undefined) {
+            this.storedPlaybackTime =
+                this.storedPlaybackTime +
+                (this.monotonicNow() - this.currentPlaybackStartTimestamp);
+            this.currentPlaybackStartTimestamp = undefined;
+        }
     }
 
     /**
@@ -496,8 +1732,12 @@ export class MediaSession {
      * @category Media
      */
     logSegmentStart(segment: Segment, options?: Options) {
+        if (!this.transition(MediaEventType.SegmentStart)) {
+            return;
+        }
+
         this.mediaSessionSegmentTotal += 1;
-        segment.segmentStartTimestamp = Date.now();
+        segment.segmentStartTimestamp = this.now();
         this.segment = segment;
         const event = this.createMediaEvent(
             MediaEventType.SegmentStart,
@@ -515,8 +1755,12 @@ export class MediaSession {
      * @category Media
      */
     logSegmentEnd(options?: Options) {
+        if (!this.transition(MediaEventType.SegmentEnd)) {
+            return;
+        }
+
         if (this.segment?.segmentStartTimestamp) {
-            this.segment!.segmentEndTimestamp = Date.now();
+            this.segment!.segmentEndTimestamp = this.now();
             this.segment!.segmentCompleted = true;
             this.segment!.segmentSkipped = false;
         }
@@ -534,8 +1778,12 @@ export class MediaSession {
      * @category Media
      */
     logSegmentSkip(options?: Options) {
+        if (!this.transition(MediaEventType.SegmentSkip)) {
+            return;
+        }
+
         if (this.segment?.segmentStartTimestamp) {
-            this.segment!.segmentEndTimestamp = Date.now();
+            this.segment!.segmentEndTimestamp = this.now();
             this.segment!.segmentSkipped = true;
             this.segment!.segmentCompleted = false;
         }
@@ -556,6 +1804,13 @@ export class MediaSession {
      * @category Media
      */
     logSeekStart(seekPosition: number, options?: Options) {
+        if (!this.transition(MediaEventType.SeekStart)) {
+            return;
+        }
+
+        this.seekStartTimestamp = this.now();
+        this.seekStartPosition =
+            options?.currentPlayheadPosition ?? this.currentPlayheadPosition;
         const event = this.createMediaEvent(MediaEventType.SeekStart, options);
 
         event.seekPosition = seekPosition;
@@ -570,20 +1825,235 @@ export class MediaSession {
      * @category Media
      */
     logSeekEnd(seekPosition: number, options?: Options) {
+        if (!this.transition(MediaEventType.SeekEnd)) {
+            return;
+        }
+
         const event = this.createMediaEvent(MediaEventType.SeekEnd, options);
 
         event.seekPosition = seekPosition;
+        if (this.seekStartTimestamp !== undefined) {
+            const seekDistance = seekPosition - (this.seekStartPosition || 0);
+            event.seekDistance = Math.abs(seekDistance);
+            event.seekDirection =
+                seekDistance < 0
+                    ? SeekDirection.Backward
+                    : SeekDirection.Forward;
+            event.seekDuration = this.now() - this.seekStartTimestamp;
+
+            if (event.seekDirection === SeekDirection.Forward) {
+                this.seekForwardTotal += 1;
+            } else {
+                this.seekBackwardTotal += 1;
+            }
+            this.seekTimeSpent += event.seekDuration;
+        }
+        this.seekStartTimestamp = undefined;
+        this.seekStartPosition = undefined;
+        this.lastPlayheadUpdate = {
+            position: seekPosition,
+            timestamp: this.monotonicNow(),
+        };
+        this.lastWatchedPosition = {
+            position: seekPosition,
+            contentTime: this.mediaContentTimeConsumed(),
+        };
 
         this.logEvent(event);
     }
 
+    /**
+     * Infers seeks from `logPlayheadPosition` for players that do not report them.
+     * When the playhead moves further than the time elapsed since the previous
+     * update allows at the current playback rate, a Seek Start and Seek End
+     * flagged as inferred are logged before the playhead update.
+     *
+     * ```typescript
+     * mediaSession.enableSeekDetection({ tolerance: 2000 });
+     * ```
+     * @param seekDetection An object representing [[SeekDetectionOptions]]
+     * @category Media
+     */
+    enableSeekDetection(seekDetection: SeekDetectionOptions = {}) {
+        this.seekDetection = seekDetection;
+    }
+
+    /**
+     * Stops inferring seeks from `logPlayheadPosition`
+     * @category Media
+     */
+    disableSeekDetection() {
+        this.seekDetection = undefined;
+    }
+
+    /**
+     * Infers buffering for players that do not report it. While Playing, a
+     * `logPlayheadPosition` that has not advanced for the threshold logs a
+     * Buffer Start flagged as inferred, and the next one that advances logs
+     * the matching Buffer End.
+     *
+     * ```typescript
+     * mediaSession.enableStallDetection({ threshold: 1000 });
+     * ```
+     * @param stallDetection An object representing [[StallDetectionOptions]]
+     * @category Buffering
+     */
+    enableStallDetection(stallDetection: StallDetectionOptions = {}) {
+        this.stallDetection = stallDetection;
+    }
+
+    /**
+     * Stops inferring buffering from `logPlayheadPosition`
+     * @category Buffering
+     */
+    disableStallDetection() {
+        this.stallDetection = undefined;
+    }
+
+    /**
+     * Logs an inferred Buffer Start when the playhead stopped advancing for the
+     * threshold, or the matching Buffer End once it advances again
+     * @param playheadPosition The updated playhead position
+     */
+    private detectStall(playheadPosition: number) {
+        if (!this.stallDetection) {
+            return;
+        }
+
+        const timestamp = this.monotonicNow();
+        const lastAdvance = this.lastPlayheadAdvance;
+        // tslint:disable-next-line: no-any
+        const customAttributes: Record<string, any> = {};
+        customAttributes[ValidMediaAttributeKeys.inferred] = true;
+
+        if (!lastAdvance || playheadPosition !== lastAdvance.position) {
+            this.lastPlayheadAdvance = {
+                position: playheadPosition,
+                timestamp,
+            };
+            if (
+                this.stallInferred &&
+                this.playbackState === PlaybackState.Buffering
+            ) {
+                this.logBufferEnd(
+                    this.now() - (this.bufferStartTimestamp ?? this.now()),
+                    0,
+                    playheadPosition,
+                    { customAttributes },
+                );
+            }
+            this.stallInferred = false;
+            return;
+        }
+
+        const { threshold = 1000 } = this.stallDetection;
+        const stallDuration = timestamp - lastAdvance.timestamp;
+        if (
+            this.playbackState === PlaybackState.Playing &&
+            stallDuration >= threshold
+        ) {
+            this.stallInferred = true;
+            this.logBufferStart(0, 0, playheadPosition, { customAttributes });
+            this.bufferStartTimestamp = this.now() - stallDuration;
+        }
+    }
+
+    /**
+     * Moves the latest playhead update to the current time, assuming that the
+     * playhead only advances while Playing, at the current playback rate
+     */
+    private advanceLastPlayheadUpdate() {
+        if (this.lastPlayheadUpdate) {
+            const timestamp = this.monotonicNow();
+            if (this.playbackState === PlaybackState.Playing) {
+                this.lastPlayheadUpdate.position +=
+                    (timestamp - this.lastPlayheadUpdate.timestamp) *
+                    (this.playbackRate ?? 1);
+            }
+            this.lastPlayheadUpdate.timestamp = timestamp;
+        }
+    }
+
+    /**
+     * Logs an inferred seek if the playhead jumped since the previous playhead update
+     * @param playheadPosition The updated playhead position
+     */
+    private detectSeek(playheadPosition: number) {
+        const previous = this.lastPlayheadUpdate;
+        this.lastPlayheadUpdate = {
+            position: playheadPosition,
+            timestamp: this.monotonicNow(),
+        };
+
+        if (
+            !this.seekDetection ||
+            !previous ||
+            (this.playbackState !== PlaybackState.Playing &&
+                this.playbackState !== PlaybackState.Paused)
+        ) {
+            return;
+        }
+
+        const { tolerance = 2000 } = this.seekDetection;
+        if (Math.abs(playheadPosition - previous.position) <= tolerance) {
+            return;
+        }
+
+        // tslint:disable-next-line: no-any
+        const customAttributes: Record<string, any> = {};
+        customAttributes[ValidMediaAttributeKeys.inferred] = true;
+
+        this.logSeekStart(playheadPosition, {
+            currentPlayheadPosition: previous.position,
+            customAttributes,
+        });
+        this.logSeekEnd(playheadPosition, { customAttributes });
+    }
+
+    /**
+     * Adds the range between the previous playhead update and this one to the
+     * watched ranges, unless the playhead moved further than the content time
+     * consumed since then allows, i.e. after a seek
+     * @param playheadPosition The updated playhead position
+     */
+    private storeWatchedRange(playheadPosition: number) {
+        const previous = this.lastWatchedPosition;
+        const contentTime = this.mediaContentTimeConsumed();
+        this.lastWatchedPosition = { position: playheadPosition, contentTime };
+
+        if (
+            !previous ||
+            this.playbackState === PlaybackState.InAd ||
+            this.playbackState === PlaybackState.InAdBreak
+        ) {
+            return;
+        }
+
+        const advance = playheadPosition - previous.position;
+        if (
+            advance > 0 &&
+            advance <=
+                contentTime - previous.contentTime + WatchedRangeTolerance
+        ) {
+            this.watchedRanges.add(previous.position, playheadPosition);
+        }
+    }
+
     /**
      * Logs when the playhead position is updated
      * @param playheadPosition The updated playhead position
      * @category Media
      */
     logPlayheadPosition(playheadPosition: number) {
+        if (!this.transition(MediaEventType.UpdatePlayheadPosition)) {
+            return;
+        }
+
+        this.detectSeek(playheadPosition);
+        this.detectStall(playheadPosition);
+        this.storeWatchedRange(playheadPosition);
         this.currentPlayheadPosition = playheadPosition;
+        this.playheadContentTime = this.mediaContentTimeConsumed();
         const event = this.createMediaEvent(
             MediaEventType.UpdatePlayheadPosition,
         );
@@ -591,6 +2061,113 @@ export class MediaSession {
         event.playheadPosition = playheadPosition;
 
         this.logEvent(event);
+
+        this.updateLiveEdge();
+
+        if (
+            playheadPosition > this.playRequestedPosition &&
+            this.playbackState !== PlaybackState.InAd &&
+            this.playbackState !== PlaybackState.InAdBreak
+        ) {
+            this.startContentPlayback();
+        }
+    }
+
+    /**
+     * Logs the seekable window of a live stream. The live edge is assumed to
+     * move forward in real time until the next update, and the latency is the
+     * distance between the live edge and the playhead position. Once a window
+     * is logged, every event carries `live_latency` and `is_at_live_edge`, and
+     * a Fell Behind Live or Returned To Live event is logged whenever the
+     * playhead leaves or reaches the live edge
+     * @param liveWindow An object representing the [[LiveWindow]]
+     * @category Live
+     */
+    updateLiveWindow(liveWindow: LiveWindow) {
+        if (!this.isLive()) {
+            return;
+        }
+
+        this.liveWindow = { ...liveWindow };
+        this.liveWindowTimestamp = this.monotonicNow();
+        this.updateLiveEdge();
+    }
+
+    /**
+     * Returns the latency behind the live edge in milliseconds, or undefined
+     * if the session is not a live stream or no live window was logged.
+     * Between playhead updates, the playhead is assumed to advance while playing
+     * @category Live
+     */
+    getLiveLatency(): number | undefined {
+        return this.liveLatency();
+    }
+
+    private isLive() {
+        return this.streamType === MediaStreamType.LiveStream;
+    }
+
+    /**
+     * Returns the latest live window, moved forward by the time since it was logged
+     */
+    private currentLiveWindow(): LiveWindow | undefined {
+        if (!this.liveWindow) {
+            return undefined;
+        }
+
+        const elapsed = this.monotonicNow() - this.liveWindowTimestamp;
+        return {
+            start: this.liveWindow.start + elapsed,
+            end: this.liveWindow.end + elapsed,
+        };
+    }
+
+    /**
+     * Returns the distance between the live edge and the latest playhead position,
+     * moved forward by the content time consumed since it was reported
+     */
+    private liveLatency(): number | undefined {
+        const liveWindow = this.currentLiveWindow();
+        if (!this.isLive() || !liveWindow) {
+            return undefined;
+        }
+
+        const playheadPosition =
+            this.currentPlayheadPosition === undefined
+                ? liveWindow.end
+                : this.currentPlayheadPosition +
+                  this.mediaContentTimeConsumed() -
+                  this.playheadContentTime;
+        return Math.max(liveWindow.end - playheadPosition, 0);
+    }
+
+    /**
+     * Logs a Fell Behind Live or Returned To Live event if the playhead left
+     * or reached the live edge since the previous update
+     */
+    private updateLiveEdge() {
+        const liveLatency = this.liveLatency();
+        if (liveLatency === undefined) {
+            return;
+        }
+
+        const wasAtLiveEdge = this.atLiveEdge;
+        this.atLiveEdge = liveLatency <= this.liveEdgeTolerance;
+        if (
+            wasAtLiveEdge === undefined ||
+            wasAtLiveEdge === this.atLiveEdge ||
+            this.playbackState === PlaybackState.Idle
+        ) {
+            return;
+        }
+
+        const event = this.createMediaEvent(
+            this.atLiveEdge
+                ? MediaEventType.ReturnedToLive
+                : MediaEventType.FellBehindLive,
+        );
+
+        this.logEvent(event);
     }
 
     /**
@@ -600,6 +2177,10 @@ export class MediaSession {
      * @category Quality of Service
      */
     logQoS(qos: QoS, options?: Options) {
+        if (!this.transition(MediaEventType.UpdateQoS)) {
+            return;
+        }
+
         this.currentQoS = { ...this.currentQoS, ...qos };
         const event = this.createMediaEvent(MediaEventType.UpdateQoS, options);
 
@@ -608,6 +2189,244 @@ export class MediaSession {
         this.logEvent(event);
     }
 
+    /**
+     * Logs a change of the playback speed, i.e. when a podcast is played at 1.5x.
+     * The rate is attached to every following event, and the content time
+     * consumed is the content time spent multiplied by the rate
+     * @param rate The new playback rate, where 1 is normal speed
+     * @param options Optional Custom Attributes
+     * @category Media
+     */
+    logPlaybackRateChange(rate: number, options?: Options) {
+        this.advanceLastPlayheadUpdate();
+        this.storePlaybackRateTime();
+        this.playbackRate = rate;
+
+        const event = this.createMediaEvent(
+            MediaEventType.PlaybackRateChange,
+            options,
+        );
+
+        this.logEvent(event);
+    }
+
+    /**
+     * Returns the content time consumed so far, including the time spent at
+     * the current playback rate that was not stored yet
+     */
+    private mediaContentTimeConsumed(): number {
+        return (
+            this.contentTimeConsumed +
+            (this.mediaContentTimeSpent() - this.playbackRateStartContentTime) *
+                (this.playbackRate ?? 1)
+        );
+    }
+
+    /**
+     * Adds the content time spent at the current playback rate to the playback rate metrics
+     */
+    private storePlaybackRateTime() {
+        const contentTimeSpent = this.mediaContentTimeSpent();
+        const rate = this.playbackRate ?? 1;
+        const rateTime = contentTimeSpent - this.playbackRateStartContentTime;
+        const bucket = getPlaybackRateBucket(rate);
+
+        if (rateTime) {
+            this.playbackRateTimeSpent[bucket] =
+                (this.playbackRateTimeSpent[bucket] || 0) + rateTime;
+            this.contentTimeConsumed += rate * rateTime;
+        }
+        this.playbackRateStartContentTime = contentTimeSpent;
+    }
+
+    /**
+     * Logs a switch to another rendition of the encoding ladder, i.e. when
+     * adaptive streaming changes the quality. The bitrate also becomes the QoS bitrate
+     * @param rendition An object representing a [[Rendition]]
+     * @param options Optional Custom Attributes
+     * @category Quality of Service
+     */
+    logRenditionChange(rendition: Rendition, options?: Options) {
+        this.storeRenditionTime();
+
+        let direction = RenditionSwitchDirection.Initial;
+        if (this.currentRendition) {
+            if (rendition.bitrate > this.currentRendition.bitrate) {
+                direction = RenditionSwitchDirection.Up;
+                this.renditionUpshifts += 1;
+            } else if (rendition.bitrate < this.currentRendition.bitrate) {
+                direction = RenditionSwitchDirection.Down;
+                this.renditionDownshifts += 1;
+            } else {
+                direction = RenditionSwitchDirection.Lateral;
+                this.renditionLateralSwitches += 1;
+            }
+        }
+
+        this.currentRendition = { ...rendition };
+        this.currentQoS.bitRate = rendition.bitrate;
+
+        const event = this.createMediaEvent(
+            MediaEventType.RenditionChange,
+            options,
+        );
+        event.rendition = rendition;
+        event.renditionSwitchDirection = direction;
+
+        this.logEvent(event);
+    }
+
+    /**
+     * Adds the content time spent on the current rendition to the rendition metrics
+     */
+    private storeRenditionTime() {
+        const contentTimeSpent = this.mediaContentTimeSpent();
+        if (this.currentRendition) {
+            const renditionTime =
+                contentTimeSpent - this.renditionStartContentTime;
+            const tier = getRenditionTier(this.currentRendition);
+            this.renditionTimeSpent[tier] =
+                (this.renditionTimeSpent[tier] || 0) + renditionTime;
+            this.renditionBitrateTime +=
+                this.currentRendition.bitrate * renditionTime;
+        }
+
+        this.renditionStartContentTime = contentTimeSpent;
+    }
+
+    /**
+     * Logs an error that occurred during playback. A fatal error also ends the
+     * session if `endSessionOnFatalError` is set
+     * @param error An object representing a [[PlaybackError]]
+     * @param options Optional Custom Attributes
+     * @category Quality of Service
+     */
+    logError(error: PlaybackError, options?: Options) {
+        this.mediaSessionErrorTotal += 1;
+        if (error.fatal) {
+            this.mediaSessionFatalErrorTotal += 1;
+        }
+
+        const event = this.createMediaEvent(MediaEventType.Error, options);
+        event.error = error;
+
+        this.logEvent(event);
+
+        if (
+            error.fatal &&
+            this.endSessionOnFatalError &&
+            this.playbackState !== PlaybackState.Idle
+        ) {
+            this.logMediaSessionEnd();
+        }
+    }
+
+    /**
+     * Starts logging the playhead position on a regular interval while content is playing.
+     * The heartbeat stops while the session is paused, seeking, buffering, in an ad or ended.
+     *
+     * ```typescript
+     * mediaSession.enableHeartbeat({
+     *     getPlayheadPosition: () => player.currentTime * 1000,
+     *     interval: 5000,
+     * });
+     * ```
+     * @param heartbeat An object representing [[HeartbeatOptions]]
+     * @category Media
+     */
+    enableHeartbeat(heartbeat: HeartbeatOptions) {
+        this.disableHeartbeat();
+        this.heartbeat = heartbeat;
+        this.updateHeartbeat();
+    }
+
+    /**
+     * Stops the playhead heartbeat started by `enableHeartbeat`
+     * @category Media
+     */
+    disableHeartbeat() {
+        this.stopHeartbeat();
+        this.heartbeat = undefined;
+    }
+
+    private updateHeartbeat() {
+        if (!this.heartbeat) {
+            return;
+        }
+
+        const stalled =
+            this.stallInferred &&
+            this.playbackState === PlaybackState.Buffering;
+        if (this.playbackState !== PlaybackState.Playing && !stalled) {
+            this.stopHeartbeat();
+        } else if (this.heartbeatHandle === undefined) {
+            const { getPlayheadPosition, interval = 10000 } = this.heartbeat;
+            const timers = this.heartbeat.timers || defaultTimers;
+
+            this.heartbeatHandle = timers.setInterval(() => {
+                this.logPlayheadPosition(getPlayheadPosition());
+            }, interval);
+        }
+    }
+
+    private stopHeartbeat() {
+        if (this.heartbeatHandle !== undefined) {
+            const timers = this.heartbeat?.timers || defaultTimers;
+            timers.clearInterval(this.heartbeatHandle);
+            this.heartbeatHandle = undefined;
+        }
+    }
+
+    /**
+     * Holds events before sending them to the mParticle SDK to reduce the number
+     * of events on devices with a frequent heartbeat.
+     *
+     * Consecutive playhead and QoS updates are coalesced so that only the latest
+     * is sent. Events are sent when the window elapses, when a state changing
+     * event such as Pause or Media Session End is logged, or when `flush` is called.
+     *
+     * ```typescript
+     * mediaSession.enableBatching({ window: 5000 });
+     * ```
+     * @param batching An object representing [[BatchingOptions]]
+     * @category Media
+     */
+    enableBatching(batching: BatchingOptions = {}) {
+        this.batcher?.flush();
+        this.batcher = new MediaEventBatcher(batching, context =>
+            this.send(context),
+        );
+    }
+
+    /**
+     * Sends any held events and stops batching
+     * @category Media
+     */
+    disableBatching(): Promise<void> {
+        const flushed = this.flush();
+        this.batcher = undefined;
+        return flushed;
+    }
+
+    /**
+     * Sends any events held by `enableBatching` to the mParticle SDK. Held events
+     * are sent right away, and events still in a middleware that returned a
+     * promise are sent once it settles
+     * @returns A promise that resolves once the events have been sent
+     * @category Media
+     */
+    flush(): Promise<void> {
+        try {
+            this.batcher?.flush();
+        } catch (error) {
+            return Promise.reject(error);
+        }
+
+        return this.middleware.settled().then(() => this.batcher?.flush());
+    }
+
+    private batcher?: MediaEventBatcher;
+
     /**
      * Creates a Custom Page Event which can then be passed into
      * Core SDK as an event
@@ -687,11 +2506,124 @@ export class MediaSession {
     }
     private listenerCallback: MediaEventCallback = () => {};
 
+    /**
+     * Subscribes a callback to one or more [[MediaEventType]]s. Unlike `mediaEventListener`,
+     * any number of callbacks can be subscribed at the same time.
+     *
+     * ```typescript
+     * const unsubscribe = mediaSession.on(
+     *     [MediaEventType.Play, MediaEventType.Pause],
+     *     (event: MediaEvent) => updatePlayerUI(event),
+     * );
+     *
+     * // Subscribe to every event
+     * mediaSession.on('*', (event: MediaEvent) => analyticsShim(event));
+     *
+     * unsubscribe();
+     * ```
+     *
+     * An error thrown by a callback is reported via the mParticle logger and
+     * does not affect other callbacks or the logging of the event.
+     * @param eventTypes A [[MediaEventType]], an array of them or `'*'` for all events
+     * @param callback A callback function
+     * @returns A function that removes the subscription
+     */
+    on(eventTypes: MediaEventFilter, callback: MediaEventCallback): () => void {
+        return this.emitter.on(eventTypes, callback);
+    }
+
+    /**
+     * Subscribes a callback that is removed after it is called once
+     * @param eventTypes A [[MediaEventType]], an array of them or `'*'` for all events
+     * @param callback A callback function
+     * @returns A function that removes the subscription
+     */
+    once(
+        eventTypes: MediaEventFilter,
+        callback: MediaEventCallback,
+    ): () => void {
+        return this.emitter.once(eventTypes, callback);
+    }
+
+    /**
+     * Unsubscribes a callback added with `on` or `once`
+     * @param eventTypes A [[MediaEventType]], an array of them or `'*'` for all events
+     * @param callback The callback function that was subscribed
+     */
+    off(eventTypes: MediaEventFilter, callback: MediaEventCallback) {
+        this.emitter.off(eventTypes, callback);
+    }
+
+    private emitter = new MediaEventEmitter(error =>
+        this.reportListenerError(error),
+    );
+
+    private emit(event: MediaEvent) {
+        try {
+            this.mediaEventListener(event);
+        } catch (error) {
+            this.reportListenerError(error);
+        }
+
+        this.emitter.emit(event);
+    }
+
+    private reportListenerError(error: unknown) {
+        this.mparticleInstance.logger(`Media event listener failed: ${error}`);
+    }
+
+    /**
+     * Adds a middleware to the end of the chain that runs before each event is
+     * sent to the mParticle SDK. A middleware can change the event, drop it by
+     * not calling `next`, or split it by calling `next` several times. The page
+     * event form is built from the event once it has passed the chain.
+     *
+     * ```typescript
+     * const removeConsentGate = mediaSession.addMiddleware((context, next) => {
+     *     if (hasMediaConsent()) {
+     *         next();
+     *     }
+     * });
+     *
+     * mediaSession.addMiddleware(async (context, next) => {
+     *     context.event.customAttributes = {
+     *         ...context.event.customAttributes,
+     *         player_version: await getPlayerVersion(),
+     *     };
+     *     next(context);
+     * });
+     * ```
+     *
+     * A middleware that throws or rejects drops the event, and the error is
+     * reported via the mParticle logger. Errors from the mParticle SDK are not
+     * caught, as without middleware.
+     * @param middleware A [[MediaMiddleware]] function
+     * @returns A function that removes the middleware
+     */
+    addMiddleware(middleware: MediaMiddleware): () => void {
+        return this.middleware.add(middleware);
+    }
+
+    /**
+     * Removes a middleware added with `addMiddleware`
+     * @param middleware The middleware function that was added
+     */
+    removeMiddleware(middleware: MediaMiddleware) {
+        this.middleware.remove(middleware);
+    }
+
+    private middleware = new MediaMiddlewareChain(error =>
+        this.mparticleInstance.logger(`Media middleware failed: ${error}`),
+    );
+
     private logSessionSummary() {
         if (!this.sessionSummarySent) {
             if (!this.mediaSessionEndTimestamp) {
-                this.mediaSessionEndTimestamp = Date.now();
+                this.mediaSessionEndTimestamp = this.now();
             }
+            this.storeRenditionTime();
+            this.storePlaybackRateTime();
+
             // tslint:disable-next-line: no-any
             const customAttributes: Record<string, any> = {};
             customAttributes[
@@ -733,6 +2665,94 @@ export class MediaSession {
             customAttributes[
                 ValidMediaAttributeKeys.adIDsKey
             ] = this.mediaSessionAdObjects;
+            customAttributes[ValidMediaAttributeKeys.bufferCountKey] =
+                this.startupBufferTotal + this.rebufferTotal;
+            customAttributes[
+                ValidMediaAttributeKeys.startupBufferCountKey
+            ] = this.startupBufferTotal;
+            customAttributes[
+                ValidMediaAttributeKeys.startupBufferTimeKey
+            ] = this.startupBufferTimeSpent;
+            customAttributes[
+                ValidMediaAttributeKeys.rebufferCountKey
+            ] = this.rebufferTotal;
+            customAttributes[
+                ValidMediaAttributeKeys.rebufferTimeKey
+            ] = this.rebufferTimeSpent;
+            customAttributes[
+                ValidMediaAttributeKeys.longestRebufferKey
+            ] = this.longestRebuffer;
+            customAttributes[
+                ValidMediaAttributeKeys.rebufferRatioKey
+            ] = this.rebufferRatio();
+            customAttributes[ValidMediaAttributeKeys.exitBeforeStartKey] = !this
+                .contentPlaybackStarted;
+            customAttributes[ValidMediaAttributeKeys.seekCountKey] =
+                this.seekForwardTotal + this.seekBackwardTotal;
+            customAttributes[
+                ValidMediaAttributeKeys.seekForwardCountKey
+            ] = this.seekForwardTotal;
+            customAttributes[
+                ValidMediaAttributeKeys.seekBackwardCountKey
+            ] = this.seekBackwardTotal;
+            customAttributes[
+                ValidMediaAttributeKeys.seekTimeKey
+            ] = this.seekTimeSpent;
+            customAttributes[
+                ValidMediaAttributeKeys.averageBitrateKey
+            ] = this.averageBitrate();
+            Object.keys(this.renditionTimeSpent).forEach(tier => {
+                customAttributes[
+                    `${ValidMediaAttributeKeys.renditionTimeKey}_${tier}`
+                ] = this.renditionTimeSpent[tier];
+            });
+            customAttributes[ValidMediaAttributeKeys.renditionSwitchesKey] =
+                this.renditionUpshifts +
+                this.renditionDownshifts +
+                this.renditionLateralSwitches;
+            customAttributes[
+                ValidMediaAttributeKeys.renditionUpshiftsKey
+            ] = this.renditionUpshifts;
+            customAttributes[
+                ValidMediaAttributeKeys.renditionDownshiftsKey
+            ] = this.renditionDownshifts;
+            customAttributes[
+                ValidMediaAttributeKeys.uniqueTimeWatchedKey
+            ] = this.watchedRanges.getTotal();
+            customAttributes[
+                ValidMediaAttributeKeys.contentCoverageKey
+            ] = this.watchedRanges.getPercent(this.duration);
+            customAttributes[
+                ValidMediaAttributeKeys.coverageBitmapKey
+            ] = this.watchedRanges.getBitmap(this.duration);
+            customAttributes[
+                ValidMediaAttributeKeys.pauseCountKey
+            ] = this.pauseTotal;
+            customAttributes[
+                ValidMediaAttributeKeys.pauseTimeKey
+            ] = this.pauseTimeSpent;
+            customAttributes[
+                ValidMediaAttributeKeys.longestPauseKey
+            ] = this.longestPause;
+            customAttributes[
+                ValidMediaAttributeKeys.resumeCountKey
+            ] = this.resumeTotal;
+            customAttributes[
+                ValidMediaAttributeKeys.contentTimeConsumedKey
+            ] = this.contentTimeConsumed;
+            Object.keys(this.playbackRateTimeSpent).forEach(rate => {
+                customAttributes[
+                    `${ValidMediaAttributeKeys.playbackRateTimeKey}_${rate}`
+                ] = this.playbackRateTimeSpent[rate];
+            });
+            customAttributes[ValidMediaAttributeKeys.programCountKey] =
+                this.programIndex + 1;
+            customAttributes[
+                ValidMediaAttributeKeys.errorCountKey
+            ] = this.mediaSessionErrorTotal;
+            customAttributes[
+                ValidMediaAttributeKeys.fatalErrorCountKey
+            ] = this.mediaSessionFatalErrorTotal;
 
             const options: Options = {
                 currentPlayheadPosition: this.currentPlayheadPosition,
@@ -748,10 +2768,45 @@ export class MediaSession {
         }
     }
 
+    private logProgramSummary(endTimestamp = this.now()) {
+        // tslint:disable-next-line: no-any
+        const customAttributes: Record<string, any> = {};
+        customAttributes[
+            ValidMediaAttributeKeys.mediaSessionIdKey
+        ] = this.sessionId;
+        customAttributes[ValidMediaAttributeKeys.contentIdKey] = this.contentId;
+        customAttributes[ValidMediaAttributeKeys.contentTitleKey] = this.title;
+        customAttributes[
+            ValidMediaAttributeKeys.programIndexKey
+        ] = this.programIndex;
+        customAttributes[
+            ValidMediaAttributeKeys.programStartTimestampKey
+        ] = this.programStartTimestamp;
+        customAttributes[
+            ValidMediaAttributeKeys.programEndTimestampKey
+        ] = endTimestamp;
+        customAttributes[ValidMediaAttributeKeys.programTimeSpentKey] =
+            endTimestamp - this.programStartTimestamp;
+        customAttributes[ValidMediaAttributeKeys.programContentTimeSpentKey] =
+            this.mediaContentTimeSpent() - this.programStartContentTime;
+        customAttributes[ValidMediaAttributeKeys.programAdTimeSpentKey] =
+            this.mediaTotalAdTimeSpent - this.programStartAdTime;
+
+        const options: Options = {
+            currentPlayheadPosition: this.currentPlayheadPosition,
+            customAttributes,
+        };
+        const summaryEvent = this.createMediaEvent(
+            MediaEventType.ProgramSummary,
+            options,
+        );
+        this.logEvent(summaryEvent);
+    }
+
     private logSegmentSummary() {
         if (this.segment?.segmentStartTimestamp) {
             if (!this.segment.segmentEndTimestamp) {
-                this.segment.segmentEndTimestamp = Date.now();
+                this.segment.segmentEndTimestamp = this.now();
             }
 
             // tslint:disable-next-line: no-any
@@ -783,6 +2838,9 @@ export class MediaSession {
             customAttributes[
                 ValidMediaAttributeKeys.segmentCompletedKey
             ] = this.segment.segmentCompleted;
+            customAttributes[
+                ValidMediaAttributeKeys.segmentAbandonedKey
+            ] = !!this.segment.segmentAbandoned;
 
             const options: Options = {
                 currentPlayheadPosition: this.currentPlayheadPosition,
@@ -804,7 +2862,7 @@ export class MediaSession {
                 this.adContent.adStartTimestamp &&
                 !this.adContent.adEndTimestamp
             ) {
-                this.adContent.adEndTimestamp = Date.now();
+                this.adContent.adEndTimestamp = this.now();
                 this.mediaTotalAdTimeSpent +=
                     this.adContent.adEndTimestamp -
                     this.adContent.adStartTimestamp;
@@ -836,6 +2894,11 @@ export class MediaSession {
             customAttributes[
                 ValidMediaAttributeKeys.adContentCompletedKey
             ] = this.adContent?.adCompleted;
+            customAttributes[ValidMediaAttributeKeys.adContentQuartileKey] =
+                this.adContent?.adQuartile || 0;
+            customAttributes[
+                ValidMediaAttributeKeys.adContentAbandonedKey
+            ] = !!this.adContent.adAbandoned;
 
             const options: Options = {
                 currentPlayheadPosition: this.currentPlayheadPosition,
@@ -850,4 +2913,57 @@ export class MediaSession {
 
         this.adContent = undefined;
     }
+
+    private logAdBreakSummary() {
+        if (this.adBreak?.adBreakStartTimestamp) {
+            if (!this.adBreak.adBreakEndTimestamp) {
+                this.adBreak.adBreakEndTimestamp = this.now();
+            }
+
+            // tslint:disable-next-line: no-any
+            const customAttributes: Record<string, any> = {};
+            customAttributes[
+                ValidMediaAttributeKeys.mediaSessionIdKey
+            ] = this.sessionId;
+            customAttributes[
+                ValidMediaAttributeKeys.adBreakIdKey
+            ] = this.adBreak.id;
+            customAttributes[
+                ValidMediaAttributeKeys.adBreakTitleKey
+            ] = this.adBreak.title;
+            customAttributes[
+                ValidMediaAttributeKeys.adBreakStartTimestampKey
+            ] = this.adBreak.adBreakStartTimestamp;
+            customAttributes[
+                ValidMediaAttributeKeys.adBreakEndTimestampKey
+            ] = this.adBreak.adBreakEndTimestamp;
+            customAttributes[ValidMediaAttributeKeys.adBreakTimeSpentKey] =
+                this.adBreak.adBreakEndTimestamp -
+                this.adBreak.adBreakStartTimestamp;
+            customAttributes[
+                ValidMediaAttributeKeys.adBreakAdsStartedKey
+            ] = this.adBreakAdsStarted;
+            customAttributes[
+                ValidMediaAttributeKeys.adBreakAdsCompletedKey
+            ] = this.adBreakAdsCompleted;
+            customAttributes[
+                ValidMediaAttributeKeys.adBreakAdsSkippedKey
+            ] = this.adBreakAdsSkipped;
+            customAttributes[
+                ValidMediaAttributeKeys.adBreakAbandonedKey
+            ] = !!this.adBreak.adBreakAbandoned;
+
+            const options: Options = {
+                currentPlayheadPosition: this.currentPlayheadPosition,
+                customAttributes,
+            };
+            const summaryEvent = this.createMediaEvent(
+                MediaEventType.AdBreakSummary,
+                options,
+            );
+            this.logEvent(summaryEvent);
+        }
+
+        this.adBreak = undefined;
+    }
 }
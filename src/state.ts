@@ -0,0 +1,334 @@
+import { MediaEventType, PlaybackState, SuspendedPlaybackState } from './types';
+
+/**
+ * @hidden Describes how a log method moves a session between Playback States
+ */
+type Transition = {
+    /**
+     * States in which the log method is legal
+     */
+    from: PlaybackState[];
+    /**
+     * State entered after the log method. Omitted when the state does not change
+     */
+    to?: PlaybackState;
+    /**
+     * Remembers the current state so that a later transition can resume it
+     */
+    suspend?: boolean;
+    /**
+     * Returns to the state that was active before the matching suspend. Also
+     * legal while the matching nested state is interrupted by another one, in
+     * which case the other one returns to the state it interrupted
+     */
+    resume?: boolean;
+    /**
+     * Also ends the nested states that interrupted the resumed one, i.e. the
+     * ad of an ad break
+     */
+    unwind?: boolean;
+    /**
+     * Nested states in which the transition changes the state they will return
+     * to, instead of the current state
+     */
+    deferIn?: PlaybackState[];
+    /**
+     * Forgets any suspended states
+     */
+    reset?: boolean;
+};
+
+const ActiveStates = [
+    PlaybackState.Started,
+    PlaybackState.Playing,
+    PlaybackState.Paused,
+    PlaybackState.Seeking,
+    PlaybackState.Buffering,
+    PlaybackState.InAdBreak,
+    PlaybackState.InAd,
+    PlaybackState.Ended,
+];
+
+const ContentStates = [
+    PlaybackState.Started,
+    PlaybackState.Playing,
+    PlaybackState.Paused,
+    PlaybackState.Ended,
+];
+
+const Transitions: { [eventType: number]: Transition } = {
+    [MediaEventType.SessionStart]: {
+        from: [PlaybackState.Idle],
+        to: PlaybackState.Started,
+        reset: true,
+    },
+    [MediaEventType.SessionEnd]: {
+        from: ActiveStates,
+        to: PlaybackState.Idle,
+        reset: true,
+    },
+    [MediaEventType.ContentEnd]: {
+        from: [
+            PlaybackState.Started,
+            PlaybackState.Playing,
+            PlaybackState.Paused,
+        ],
+        to: PlaybackState.Ended,
+        reset: true,
+    },
+    [MediaEventType.Play]: {
+        from: ContentStates,
+        to: PlaybackState.Playing,
+    },
+    [MediaEventType.Pause]: {
+        from: [PlaybackState.Playing, PlaybackState.Paused],
+        to: PlaybackState.Paused,
+        deferIn: [PlaybackState.Seeking, PlaybackState.Buffering],
+    },
+    [MediaEventType.SeekStart]: {
+        from: ContentStates,
+        to: PlaybackState.Seeking,
+        suspend: true,
+    },
+    [MediaEventType.SeekEnd]: {
+        from: [PlaybackState.Seeking],
+        resume: true,
+    },
+    [MediaEventType.BufferStart]: {
+        from: [
+            PlaybackState.Started,
+            PlaybackState.Playing,
+            PlaybackState.Paused,
+            PlaybackState.Seeking,
+            PlaybackState.InAd,
+        ],
+        to: PlaybackState.Buffering,
+        suspend: true,
+    },
+    [MediaEventType.BufferEnd]: {
+        from: [PlaybackState.Buffering],
+        resume: true,
+    },
+    [MediaEventType.AdBreakStart]: {
+        from: ContentStates,
+        to: PlaybackState.InAdBreak,
+        suspend: true,
+    },
+    [MediaEventType.AdBreakEnd]: {
+        from: [PlaybackState.InAdBreak],
+        resume: true,
+        unwind: true,
+    },
+    [MediaEventType.AdStart]: {
+        from: [PlaybackState.InAdBreak, ...ContentStates],
+        to: PlaybackState.InAd,
+        suspend: true,
+    },
+    [MediaEventType.AdEnd]: {
+        from: [PlaybackState.InAd],
+        resume: true,
+    },
+    [MediaEventType.AdSkip]: {
+        from: [PlaybackState.InAd],
+        resume: true,
+    },
+    [MediaEventType.AdClick]: {
+        from: [PlaybackState.InAd],
+    },
+    [MediaEventType.SegmentStart]: {
+        from: [
+            ...ContentStates,
+            PlaybackState.Seeking,
+            PlaybackState.Buffering,
+        ],
+    },
+    [MediaEventType.SegmentEnd]: {
+        from: [
+            ...ContentStates,
+            PlaybackState.Seeking,
+            PlaybackState.Buffering,
+        ],
+    },
+    [MediaEventType.SegmentSkip]: {
+        from: [
+            ...ContentStates,
+            PlaybackState.Seeking,
+            PlaybackState.Buffering,
+        ],
+    },
+    [MediaEventType.UpdatePlayheadPosition]: {
+        from: ActiveStates,
+    },
+    [MediaEventType.UpdateQoS]: {
+        from: ActiveStates,
+    },
+};
+
+/**
+ * Tracks the [[PlaybackState]] of a [[MediaSession]] and decides which
+ * log methods are legal in that state.
+ *
+ * Nested states such as Seeking, Buffering, InAdBreak and InAd remember the
+ * state they interrupted so that SeekEnd, BufferEnd, AdEnd and AdBreakEnd
+ * can return to it. Nested states may end in any order, and a Pause logged
+ * while Seeking or Buffering is applied once they end.
+ */
+export class PlaybackStateMachine {
+    get state(): PlaybackState {
+        return this._state;
+    }
+    private _state = PlaybackState.Idle;
+
+    private suspendedStates: SuspendedPlaybackState[] = [];
+
+    /**
+     * Returns true if an event of the given type may be logged in the current state.
+     * Event types without a transition, such as summaries, are always legal.
+     * @param eventType The [[MediaEventType]] about to be logged
+     */
+    isLegal(eventType: MediaEventType): boolean {
+        const transition = Transitions[eventType];
+        if (!transition || transition.from.indexOf(this._state) !== -1) {
+            return true;
+        }
+
+        if (transition.resume) {
+            return this.findSuspended(transition.from) !== -1;
+        }
+
+        if (transition.deferIn) {
+            const deferred = this.findDeferred(transition.deferIn);
+            return (
+                deferred !== -1 &&
+                transition.from.indexOf(
+                    this.suspendedStates[deferred].state,
+                ) !== -1
+            );
+        }
+
+        return false;
+    }
+
+    /**
+     * Moves to the state that follows the given event type. Illegal transitions
+     * are applied as well, so callers should check [[isLegal]] first.
+     * @param eventType The [[MediaEventType]] being logged
+     */
+    transition(eventType: MediaEventType) {
+        const transition = Transitions[eventType];
+        if (!transition) {
+            return;
+        }
+
+        if (transition.reset) {
+            this.suspendedStates = [];
+        }
+
+        if (transition.resume) {
+            this._state = this.resume(transition.from, transition.unwind);
+            return;
+        }
+
+        if (transition.to && transition.deferIn) {
+            const deferred = this.findDeferred(transition.deferIn);
+            if (deferred !== -1) {
+                this.suspendedStates[deferred].state = transition.to;
+                return;
+            }
+        }
+
+        if (transition.to) {
+            if (transition.suspend) {
+                this.suspendedStates.push({
+                    state: this._state,
+                    entered: transition.to,
+                });
+            }
+            this._state = transition.to;
+        }
+    }
+
+    /**
+     * Returns the states that were interrupted by the current nested states
+     */
+    getSuspendedStates(): SuspendedPlaybackState[] {
+        return this.suspendedStates.map(suspended => ({ ...suspended }));
+    }
+
+    /**
+     * Replaces the current state, i.e. when restoring a persisted session
+     * @param state The new current state
+     * @param suspendedStates The states interrupted by the current nested states
+     */
+    restore(
+        state: PlaybackState,
+        suspendedStates: SuspendedPlaybackState[] = [],
+    ) {
+        this._state = state;
+        this.suspendedStates = suspendedStates.map(suspended => ({
+            ...suspended,
+        }));
+    }
+
+    /**
+     * Ends the latest of the given nested states and returns the new current state.
+     * If another nested state interrupted it, that one stays current and will
+     * return to the state the ended one interrupted, unless they are unwound
+     * @param from The nested states being ended
+     * @param unwind Whether to end the nested states that interrupted it as well
+     */
+    private resume(from: PlaybackState[], unwind = false): PlaybackState {
+        const index = this.findSuspended(from);
+        if (index === -1) {
+            this.suspendedStates = [];
+            return this._state === PlaybackState.Idle
+                ? PlaybackState.Idle
+                : PlaybackState.Started;
+        }
+
+        const [ended] = this.suspendedStates.splice(
+            index,
+            unwind ? this.suspendedStates.length - index : 1,
+        );
+        if (index === this.suspendedStates.length) {
+            return ended.state;
+        }
+
+        this.suspendedStates[index].state = ended.state;
+        return this._state;
+    }
+
+    /**
+     * Returns the index of the latest suspended state that was left for any of
+     * the given states, or -1
+     * @param entered The nested states to look for
+     */
+    private findSuspended(entered: PlaybackState[]): number {
+        for (let i = this.suspendedStates.length - 1; i >= 0; i--) {
+            if (entered.indexOf(this.suspendedStates[i].entered) !== -1) {
+                return i;
+            }
+        }
+
+        return -1;
+    }
+
+    /**
+     * Returns the index of the suspended state that will be returned to once
+     * the current nested states end, if they are all among the given states, or -1
+     * @param nested The nested states to look through
+     */
+    private findDeferred(nested: PlaybackState[]): number {
+        if (nested.indexOf(this._state) === -1) {
+            return -1;
+        }
+
+        for (let i = this.suspendedStates.length - 1; i >= 0; i--) {
+            if (nested.indexOf(this.suspendedStates[i].state) === -1) {
+                return i;
+            }
+        }
+
+        return -1;
+    }
+}
@@ -0,0 +1,23 @@
+import { MediaSessionStorage } from './types';
+
+/**
+ * A [[MediaSessionStorage]] that keeps items in memory, i.e. where
+ * `localStorage` is unavailable or in tests
+ */
+export class InMemoryStorage implements MediaSessionStorage {
+    private items: { [key: string]: string } = {};
+
+    getItem(key: string): string | null {
+        return Object.prototype.hasOwnProperty.call(this.items, key)
+            ? this.items[key]
+            : null;
+    }
+
+    setItem(key: string, value: string) {
+        this.items[key] = value;
+    }
+
+    removeItem(key: string) {
+        delete this.items[key];
+    }
+}
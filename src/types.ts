@@ -2,6 +2,7 @@
 // once we set that up.
 
 import { MediaEvent } from './events';
+import { MediaSession } from './session';
 
 /**
  * @hidden
@@ -45,6 +46,20 @@ export enum MediaEventType {
     SessionSummary = 47,
     SegmentSummary = 48,
     AdSummary = 49,
+    Milestone = 50,
+    AdFirstQuartile = 51,
+    AdMidpoint = 52,
+    AdThirdQuartile = 53,
+    AdBreakSummary = 54,
+    Error = 55,
+    RenditionChange = 56,
+    LongPause = 57,
+    PlaybackRateChange = 58,
+    FellBehindLive = 59,
+    ReturnedToLive = 60,
+    ProgramChange = 61,
+    ProgramSummary = 62,
+    PlaylistSummary = 63,
 }
 
 export const MediaEventName: { [key: string]: string } = {
@@ -71,6 +86,20 @@ export const MediaEventName: { [key: string]: string } = {
     SessionSummary: 'Media Session Summary',
     SegmentSummary: 'Media Segment Summary',
     AdSummary: 'Media Ad Summary',
+    Milestone: 'Milestone',
+    AdFirstQuartile: 'Ad First Quartile',
+    AdMidpoint: 'Ad Midpoint',
+    AdThirdQuartile: 'Ad Third Quartile',
+    AdBreakSummary: 'Media Ad Break Summary',
+    Error: 'Media Error',
+    RenditionChange: 'Rendition Change',
+    LongPause: 'Long Pause',
+    PlaybackRateChange: 'Playback Rate Change',
+    FellBehindLive: 'Fell Behind Live',
+    ReturnedToLive: 'Returned To Live',
+    ProgramChange: 'Program Change',
+    ProgramSummary: 'Media Program Summary',
+    PlaylistSummary: 'Media Playlist Summary',
 };
 
 /**
@@ -89,6 +118,19 @@ export type AdBreak = {
      * Length of time of the complete ad break
      */
     duration: number;
+    /**
+     * Timestamp for Ad Break start playback
+     */
+    adBreakStartTimestamp?: number;
+    /**
+     * Timestamp for Ad Break end playback
+     */
+    adBreakEndTimestamp?: number;
+    /**
+     * Flag for if the Ad Break ended while an Ad was still playing, or was
+     * still open when the Media Session ended
+     */
+    adBreakAbandoned?: boolean;
 };
 
 /**
@@ -147,6 +189,19 @@ export type AdContent = {
      * Flag for if the Ad was completed
      */
     adCompleted?: boolean;
+    /**
+     * Latest playhead position within the Ad
+     */
+    adPlayheadPosition?: number;
+    /**
+     * Highest quartile of the Ad reached. 1 for first quartile, 2 for midpoint,
+     * 3 for third quartile and 4 once the Ad is completed
+     */
+    adQuartile?: number;
+    /**
+     * Flag for if the Ad was still playing when the Media Session ended
+     */
+    adAbandoned?: boolean;
 };
 
 export enum MediaContentType {
@@ -162,6 +217,85 @@ export enum MediaStreamType {
     Audiobook = 'Audiobook',
 }
 
+/**
+ * Playback states tracked by a [[MediaSession]]
+ */
+export enum PlaybackState {
+    Idle = 'Idle',
+    Started = 'Started',
+    Playing = 'Playing',
+    Paused = 'Paused',
+    Seeking = 'Seeking',
+    Buffering = 'Buffering',
+    InAdBreak = 'InAdBreak',
+    InAd = 'InAd',
+    Ended = 'Ended',
+}
+
+/**
+ * How a [[MediaSession]] handles a log method that is illegal in the current [[PlaybackState]]
+ */
+export enum IllegalTransitionPolicy {
+    /**
+     * Reports the transition via the mParticle logger and logs the event anyway
+     */
+    Warn = 'Warn',
+    /**
+     * Silently ignores the log method
+     */
+    Drop = 'Drop',
+    /**
+     * Throws an Error
+     */
+    Throw = 'Throw',
+}
+
+/**
+ * Direction of a seek compared to the playhead position it started from
+ */
+export enum SeekDirection {
+    Forward = 'Forward',
+    Backward = 'Backward',
+}
+
+/**
+ * Direction of a rendition switch compared to the previous bitrate
+ */
+export enum RenditionSwitchDirection {
+    /**
+     * The first rendition of the session
+     */
+    Initial = 'Initial',
+    Up = 'Up',
+    Down = 'Down',
+    /**
+     * The bitrate did not change, i.e. only the codec or resolution changed
+     */
+    Lateral = 'Lateral',
+}
+
+/**
+ * Describes how an item of a [[MediaPlaylist]] was started
+ */
+export enum PlaylistStartType {
+    User = 'User',
+    Autoplay = 'Autoplay',
+}
+
+/**
+ * A Playback State that was interrupted by a nested state, i.e. Playing before an Ad Break
+ */
+export type SuspendedPlaybackState = {
+    /**
+     * The interrupted state
+     */
+    state: PlaybackState;
+    /**
+     * The nested state that interrupted it
+     */
+    entered: PlaybackState;
+};
+
 /**
  * Page Event Representation
  */
@@ -203,7 +337,7 @@ export type EventAPIObject = {
  * Valid attributes for a Model
  */
 export interface ModelAttributes {
-    [key: string]: string | number;
+    [key: string]: string | number | boolean;
 }
 
 /**
@@ -226,6 +360,9 @@ export const ValidMediaAttributeKeys: { [key: string]: string } = {
     mediaSessionId: 'media_session_id',
 
     playheadPosition: 'playhead_position',
+    playbackRate: 'playback_rate',
+    liveLatency: 'live_latency',
+    isAtLiveEdge: 'is_at_live_edge',
     id: 'id',
 
     //MediaConent
@@ -237,12 +374,45 @@ export const ValidMediaAttributeKeys: { [key: string]: string } = {
 
     //Seek
     seekPosition: 'seek_position',
+    seekDistance: 'seek_distance',
+    seekDirection: 'seek_direction',
+    seekDuration: 'seek_duration',
+
+    //Inferred
+    inferred: 'media_inferred',
+
+    //Milestone
+    milestonePercent: 'milestone_percent',
 
     //Buffer
     bufferDuration: 'buffer_duration',
     bufferPercent: 'buffer_percent',
     bufferPosition: 'buffer_position',
 
+    //Pause
+    pauseDuration: 'pause_duration',
+
+    //Playlist
+    playlistId: 'playlist_id',
+    playlistItemIndex: 'playlist_item_index',
+    playlistStartType: 'playlist_start_type',
+
+    //Abandoned
+    abandoned: 'media_abandoned',
+
+    //Rendition
+    renditionBitrate: 'rendition_bitrate',
+    renditionWidth: 'rendition_width',
+    renditionHeight: 'rendition_height',
+    renditionCodec: 'rendition_codec',
+    renditionSwitchDirection: 'rendition_switch_direction',
+
+    //Error
+    errorCode: 'error_code',
+    errorMessage: 'error_message',
+    errorDomain: 'error_domain',
+    errorFatal: 'error_fatal',
+
     //QoS
     qosBitrate: 'qos_bitrate',
     qosFramesPerSecond: 'qos_fps',
@@ -285,6 +455,35 @@ export const ValidMediaAttributeKeys: { [key: string]: string } = {
     adTimeSpentRateKey: 'media_ad_time_spent_rate',
     totalAdsKey: 'media_session_ad_total',
     adIDsKey: 'media_session_ad_objects',
+    bufferCountKey: 'media_session_buffer_count',
+    startupBufferCountKey: 'media_session_startup_buffer_count',
+    startupBufferTimeKey: 'media_session_startup_buffer_time',
+    rebufferCountKey: 'media_session_rebuffer_count',
+    rebufferTimeKey: 'media_session_rebuffer_time',
+    longestRebufferKey: 'media_session_longest_rebuffer',
+    rebufferRatioKey: 'media_session_rebuffer_ratio',
+    exitBeforeStartKey: 'media_session_exit_before_start',
+    seekCountKey: 'media_session_seek_count',
+    seekForwardCountKey: 'media_session_seek_forward_count',
+    seekBackwardCountKey: 'media_session_seek_backward_count',
+    seekTimeKey: 'media_session_seek_time',
+    averageBitrateKey: 'media_session_average_bitrate',
+    renditionTimeKey: 'media_session_rendition_time',
+    renditionSwitchesKey: 'media_session_rendition_switches',
+    renditionUpshiftsKey: 'media_session_rendition_upshifts',
+    renditionDownshiftsKey: 'media_session_rendition_downshifts',
+    errorCountKey: 'media_session_error_count',
+    fatalErrorCountKey: 'media_session_fatal_error_count',
+    uniqueTimeWatchedKey: 'media_session_unique_time_watched',
+    contentCoverageKey: 'media_session_content_coverage',
+    coverageBitmapKey: 'media_session_coverage_bitmap',
+    pauseCountKey: 'media_session_pause_count',
+    pauseTimeKey: 'media_session_pause_time',
+    longestPauseKey: 'media_session_longest_pause',
+    resumeCountKey: 'media_session_resume_count',
+    contentTimeConsumedKey: 'media_session_content_time_consumed',
+    playbackRateTimeKey: 'media_session_playback_rate_time',
+    programCountKey: 'media_session_program_count',
 
     // Ad Summary Attributes
     adBreakIdKey: 'ad_break_id',
@@ -294,6 +493,18 @@ export const ValidMediaAttributeKeys: { [key: string]: string } = {
     adContentTitleKey: 'ad_content_title',
     adContentSkippedKey: 'ad_skipped',
     adContentCompletedKey: 'ad_completed',
+    adContentQuartileKey: 'ad_quartile',
+    adContentAbandonedKey: 'ad_abandoned',
+
+    // Ad Break Summary Attributes
+    adBreakTitleKey: 'ad_break_title',
+    adBreakStartTimestampKey: 'ad_break_start_time',
+    adBreakEndTimestampKey: 'ad_break_end_time',
+    adBreakTimeSpentKey: 'media_ad_break_time_spent',
+    adBreakAdsStartedKey: 'ad_break_ads_started',
+    adBreakAdsCompletedKey: 'ad_break_ads_completed',
+    adBreakAdsSkippedKey: 'ad_break_ads_skipped',
+    adBreakAbandonedKey: 'ad_break_abandoned',
 
     // Segment Summary Attributes
     segmentIndexKey: 'segment_index',
@@ -303,6 +514,25 @@ export const ValidMediaAttributeKeys: { [key: string]: string } = {
     segmentTimeSpentKey: 'media_segment_time_spent',
     segmentSkippedKey: 'segment_skipped',
     segmentCompletedKey: 'segment_completed',
+    segmentAbandonedKey: 'segment_abandoned',
+
+    // Program Summary Attributes
+    programIndexKey: 'program_index',
+    programStartTimestampKey: 'program_start_time',
+    programEndTimestampKey: 'program_end_time',
+    programTimeSpentKey: 'media_program_time_spent',
+    programContentTimeSpentKey: 'media_program_content_time_spent',
+    programAdTimeSpentKey: 'media_program_ad_time_spent',
+
+    // Playlist Summary Attributes
+    playlistItemCountKey: 'playlist_item_count',
+    playlistItemsStartedKey: 'playlist_items_started',
+    playlistItemsAutoplayedKey: 'playlist_items_autoplayed',
+    playlistItemsCompletedKey: 'playlist_items_completed',
+    playlistStartTimestampKey: 'playlist_start_time',
+    playlistEndTimestampKey: 'playlist_end_time',
+    playlistTimeSpentKey: 'media_playlist_time_spent',
+    playlistContentTimeSpentKey: 'media_playlist_content_time_spent',
 };
 
 /**
@@ -331,6 +561,15 @@ export type MediaContent = {
     streamType: MediaStreamType;
 };
 
+/**
+ * Represents a program on a `Linear` channel. The content and stream types
+ * stay those of the media session
+ */
+export type ProgramContent = Pick<
+    MediaContent,
+    'title' | 'contentId' | 'duration'
+>;
+
 /**
  * Represents current Quality of Service for a the media session
  */
@@ -353,6 +592,70 @@ export type QoS = {
     fps?: number;
 };
 
+/**
+ * Represents a rendition of the content from the encoding ladder
+ */
+export type Rendition = {
+    /**
+     * Bitrate of the rendition in bits per second
+     */
+    bitrate: number;
+    /**
+     * Width of the video in pixels
+     */
+    width?: number;
+    /**
+     * Height of the video in pixels. Renditions are grouped into tiers by height, i.e. `720p`,
+     * or by bitrate for audio
+     */
+    height?: number;
+    /**
+     * Codec of the rendition, i.e. `avc1.4d401f`
+     */
+    codec?: string;
+};
+
+/**
+ * Represents the seekable window of a live stream, i.e. its DVR window
+ */
+export type LiveWindow = {
+    /**
+     * Earliest playhead position in milliseconds that can be sought to
+     */
+    start: number;
+    /**
+     * Playhead position in milliseconds of the live edge
+     */
+    end: number;
+};
+
+/**
+ * Represents an error that occurred during playback
+ */
+export type PlaybackError = {
+    /**
+     * Error code reported by the player, i.e. `MEDIA_ERR_NETWORK` or `3016`
+     */
+    code: string | number;
+    /**
+     * Human readable description of the error
+     */
+    message: string;
+    /**
+     * Where the error originated, i.e. `player`, `drm` or `network`
+     */
+    domain?: string;
+    /**
+     * Flag for if the error stopped playback
+     */
+    fatal?: boolean;
+    /**
+     * Any other details reported by the player, i.e. the failed segment URL.
+     * They are kept on `event.error` for listeners and middleware
+     */
+    [key: string]: unknown;
+};
+
 /**
  * Represents a chapter or segment of content
  */
@@ -385,6 +688,346 @@ export type Segment = {
      * Flag for if the Segment was completed
      */
     segmentCompleted?: boolean;
+    /**
+     * Flag for if the Segment was still playing when the Media Session ended
+     */
+    segmentAbandoned?: boolean;
+};
+
+/**
+ * The parts of an HTML5 `<video>` or `<audio>` element used by [[MediaElementAdapter]]
+ */
+export type MediaElement = {
+    /**
+     * Current playback position in seconds
+     */
+    currentTime: number;
+    /**
+     * Length of the media in seconds
+     */
+    duration: number;
+    /**
+     * Time ranges of the media that have been buffered
+     */
+    buffered?: {
+        length: number;
+        end(index: number): number;
+    };
+    addEventListener(type: string, listener: () => void): void;
+    removeEventListener(type: string, listener: () => void): void;
+};
+
+/**
+ * Source of time used by a [[MediaSession]]. Defaults to `Date.now()`
+ */
+export type Clock = {
+    /**
+     * Wall clock time in milliseconds, used for timestamps
+     */
+    now(): number;
+    /**
+     * Monotonic time in milliseconds, used to measure elapsed time.
+     * Falls back to `now` when omitted
+     */
+    monotonic?(): number;
+};
+
+/**
+ * Returns a unique identifier for sessions and events. Defaults to a random uuid
+ */
+export type IdGenerator = () => string;
+
+/**
+ * Replaceable dependencies of a [[MediaSession]], i.e. for deterministic tests
+ */
+export type MediaSessionDependencies = {
+    clock?: Clock;
+    idGenerator?: IdGenerator;
+};
+
+/**
+ * Configuration for [[MediaSession.create]]
+ */
+export type MediaSessionConfig = {
+    /**
+     * The media content tracked by the session
+     */
+    content: MediaContent;
+    /**
+     * Toggles sending mParticle Events to Core SDK. Defaults to false
+     */
+    logPageEvent?: boolean;
+    /**
+     * Toggles sending Media Events to Core SDK. Defaults to true
+     */
+    logMediaEvent?: boolean;
+    /**
+     * Base custom attributes to attach to all media events
+     */
+    // tslint:disable-next-line: no-any
+    baseCustomAttributes?: Record<string, any>;
+    /**
+     * Percentage of content that must be progressed through to mark it as completed.
+     * Defaults to 100
+     */
+    mediaContentCompleteLimit?: number;
+    /**
+     * Latency in milliseconds up to which a live stream is considered to be
+     * at the live edge. Defaults to 10000
+     */
+    liveEdgeTolerance?: number;
+    /**
+     * Handling of log methods that are illegal in the current [[PlaybackState]].
+     * Defaults to Warn
+     */
+    illegalTransitionPolicy?: IllegalTransitionPolicy;
+    /**
+     * Enables the automatic playhead heartbeat
+     */
+    heartbeat?: HeartbeatOptions;
+    /**
+     * Percentages of content progress that trigger a Milestone event, i.e. `[25, 50, 75, 95]`.
+     * Defaults to none
+     */
+    progressMilestones?: number[];
+    /**
+     * Ends the session when a fatal [[PlaybackError]] is logged. Defaults to false
+     */
+    endSessionOnFatalError?: boolean;
+    /**
+     * Logs the time from session start, or `markPlayRequested`, to the first play
+     * as the QoS startup time. Defaults to false
+     */
+    measureStartupTime?: boolean;
+    /**
+     * Enables batching of the events sent to the mParticle SDK
+     */
+    batching?: BatchingOptions;
+    /**
+     * Enables inferring seeks from jumps of the playhead position
+     */
+    seekDetection?: SeekDetectionOptions;
+    /**
+     * Enables inferring buffering from a playhead position that stops advancing
+     */
+    stallDetection?: StallDetectionOptions;
+    /**
+     * Enables logging a Long Pause event when a pause lasts longer than a threshold
+     */
+    longPauseDetection?: LongPauseOptions;
+    /**
+     * Saves the session to storage after each event so that it can be restored
+     */
+    persistence?: PersistenceOptions;
+} & MediaSessionDependencies;
+
+/**
+ * Configuration for a [[MediaPlaylist]]. Every option except the content is
+ * passed on to each [[MediaSession]] of the playlist
+ */
+export type MediaPlaylistConfig = Omit<MediaSessionConfig, 'content'> & {
+    /**
+     * The media content queued in the playlist, in play order
+     */
+    items: MediaContent[];
+    /**
+     * Called with each session and the index of its item before Media Session
+     * Start is logged, i.e. to add middleware and listeners to the session
+     */
+    onSessionCreated?: (mediaSession: MediaSession, index: number) => void;
+};
+
+/**
+ * Key/value storage used to persist a [[MediaSession]], such as `window.localStorage`
+ */
+export type MediaSessionStorage = {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+};
+
+/**
+ * Configures where a [[MediaSession]] persists itself after each event
+ */
+export type PersistenceOptions = {
+    /**
+     * The storage to save the session in
+     */
+    storage: MediaSessionStorage;
+    /**
+     * The storage key. Defaults to `mparticle-media-session`
+     */
+    key?: string;
+};
+
+/**
+ * Options for [[MediaSession.restore]]. Accepts the same settings as
+ * [[MediaSessionConfig]] except for the content, which is restored
+ */
+export type RestoreOptions = Omit<MediaSessionConfig, 'content'> & {
+    /**
+     * Time in milliseconds since the session was saved within which it can be resumed.
+     * Older sessions are finalized with a Session Summary instead. Defaults to 30 minutes
+     */
+    resumeWindow?: number;
+};
+
+/**
+ * Serializable representation of a [[MediaSession]] created by [[MediaSession.serialize]]
+ */
+export type SerializedMediaSession = {
+    version: number;
+    savedAt: number;
+    sessionId: string;
+    content: MediaContent;
+    playbackState: PlaybackState;
+    suspendedStates: SuspendedPlaybackState[];
+    currentPlayheadPosition?: number;
+    playheadContentTime?: number;
+    currentQoS: QoS;
+    adBreak?: AdBreak;
+    adContent?: AdContent;
+    segment?: Segment;
+    mediaSessionStartTimestamp: number;
+    mediaSessionEndTimestamp: number;
+    storedPlaybackTime: number;
+    mediaContentComplete: boolean;
+    reachedMilestones: number[];
+    mediaSessionSegmentTotal: number;
+    mediaTotalAdTimeSpent: number;
+    mediaSessionAdTotal: number;
+    mediaSessionAdObjects: string[];
+    adBreakAdsStarted: number;
+    adBreakAdsCompleted: number;
+    adBreakAdsSkipped: number;
+    bufferStartTimestamp?: number;
+    bufferStartPercent?: number;
+    bufferStartedBeforePlayback?: boolean;
+    bufferStartedInAd?: boolean;
+    contentPlaybackStarted?: boolean;
+    startupBufferTotal?: number;
+    startupBufferTimeSpent?: number;
+    rebufferTotal?: number;
+    rebufferTimeSpent?: number;
+    longestRebuffer?: number;
+    mediaSessionErrorTotal?: number;
+    mediaSessionFatalErrorTotal?: number;
+    currentRendition?: Rendition;
+    renditionStartContentTime?: number;
+    renditionTimeSpent?: { [tier: string]: number };
+    renditionBitrateTime?: number;
+    renditionUpshifts?: number;
+    renditionDownshifts?: number;
+    renditionLateralSwitches?: number;
+    seekStartTimestamp?: number;
+    seekStartPosition?: number;
+    seekForwardTotal?: number;
+    seekBackwardTotal?: number;
+    seekTimeSpent?: number;
+    stallInferred?: boolean;
+    lastPlayheadAdvancePosition?: number;
+    watchedRanges?: PlayheadRange[];
+    lastWatchedPosition?: { position: number; contentTime: number };
+    pauseStartTimestamp?: number;
+    pauseSuspendedTimestamp?: number;
+    longPauseLogged?: boolean;
+    pauseTotal?: number;
+    pauseTimeSpent?: number;
+    longestPause?: number;
+    resumeTotal?: number;
+    playbackRate?: number;
+    playbackRateStartContentTime?: number;
+    playbackRateTimeSpent?: { [rate: string]: number };
+    contentTimeConsumed?: number;
+    liveWindow?: LiveWindow;
+    atLiveEdge?: boolean;
+    programIndex?: number;
+    programStartTimestamp?: number;
+    programStartContentTime?: number;
+    programStartAdTime?: number;
+};
+
+/**
+ * A range of watched playhead positions in milliseconds, from start to end
+ */
+export type PlayheadRange = [number, number];
+
+/**
+ * Timer functions used by a [[MediaSession]]. Defaults to the global timers
+ * but can be replaced, i.e. with a fake clock in tests
+ */
+export type Timers = {
+    setInterval(callback: () => void, delay: number): unknown;
+    clearInterval(handle: unknown): void;
+};
+
+/**
+ * Configures the automatic playhead heartbeat of a [[MediaSession]]
+ */
+export type HeartbeatOptions = {
+    /**
+     * Returns the current playhead position of your player
+     */
+    getPlayheadPosition: () => number;
+    /**
+     * Time between playhead updates in milliseconds. Defaults to 10000
+     */
+    interval?: number;
+    /**
+     * Timer functions used to schedule the heartbeat
+     */
+    timers?: Timers;
+};
+
+/**
+ * Configures the batching of events sent to the mParticle SDK by a [[MediaSession]]
+ */
+export type BatchingOptions = {
+    /**
+     * Time in milliseconds that events are held before they are sent. Defaults to 5000
+     */
+    window?: number;
+    /**
+     * Timer functions used to schedule the flushes
+     */
+    timers?: Timers;
+};
+
+/**
+ * Configures how a [[MediaSession]] infers seeks from `logPlayheadPosition`
+ */
+export type SeekDetectionOptions = {
+    /**
+     * Difference in milliseconds between the playhead movement and the elapsed
+     * time that is still considered playback. Defaults to 2000
+     */
+    tolerance?: number;
+};
+
+/**
+ * Configures how a [[MediaSession]] infers buffering from `logPlayheadPosition`
+ */
+export type StallDetectionOptions = {
+    /**
+     * Time in milliseconds the playhead position must stay unchanged while
+     * Playing before buffering is inferred. Defaults to 1000
+     */
+    threshold?: number;
+};
+
+/**
+ * Configures when a [[MediaSession]] logs a Long Pause event
+ */
+export type LongPauseOptions = {
+    /**
+     * Time in milliseconds a pause must last before the Long Pause event is
+     * logged. Defaults to 60000
+     */
+    threshold?: number;
+    /**
+     * Timer functions used to schedule the Long Pause event
+     */
+    timers?: Timers;
 };
 
 /**
@@ -393,3 +1036,32 @@ export type Segment = {
 export type MediaEventCallback = {
     (event: MediaEvent): void;
 };
+
+/**
+ * A [[MediaEvent]] on its way through the middleware chain
+ */
+export type MediaMiddlewareContext = {
+    event: MediaEvent;
+    /**
+     * The page event form of the event. When the session logs page events, it is
+     * built from `event` after the chain has run, unless a middleware sets it
+     */
+    pageEvent?: PageEventObject;
+};
+
+/**
+ * A step of the middleware chain that runs before events are sent to the mParticle SDK.
+ * Call `next` to pass the event on, call it several times to split the event,
+ * or do not call it to drop the event. `next` may be called asynchronously.
+ */
+export type MediaMiddleware = {
+    (
+        context: MediaMiddlewareContext,
+        next: (context?: MediaMiddlewareContext) => void,
+    ): void | PromiseLike<void>;
+};
+
+/**
+ * The [[MediaEventType]]s a listener subscribes to. Use `'*'` to subscribe to all events
+ */
+export type MediaEventFilter = MediaEventType | MediaEventType[] | '*';
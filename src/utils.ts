@@ -1,4 +1,10 @@
-import { MediaEventType, MediaEventName } from './types';
+import {
+    Clock,
+    MediaEventType,
+    MediaEventName,
+    Rendition,
+    Timers,
+} from './types';
 
 export const uuid = (): string => {
     // Thanks to StackOverflow user Briguy37
@@ -13,3 +19,27 @@ export const uuid = (): string => {
 export const getNameFromType = (type: MediaEventType): string => {
     return MediaEventName[MediaEventType[type]];
 };
+
+export const getRenditionTier = (rendition: Rendition): string => {
+    return rendition.height
+        ? `${rendition.height}p`
+        : rendition.bitrate.toString();
+};
+
+export const getPlaybackRateBucket = (rate: number): string => {
+    return (Math.round(rate * 4) / 4).toString();
+};
+
+export const defaultClock: Clock = {
+    now: () => Date.now(),
+};
+
+export const getMonotonicTime = (clock: Clock): number => {
+    return clock.monotonic ? clock.monotonic() : clock.now();
+};
+
+export const defaultTimers: Timers = {
+    setInterval: (callback, delay) => setInterval(callback, delay),
+    clearInterval: handle =>
+        clearInterval(handle as ReturnType<typeof setInterval>),
+};
@@ -0,0 +1,192 @@
+import { expect } from 'chai';
+import sinon, { SinonSandbox } from 'sinon';
+import { MediaElementAdapter } from '../src/adapter';
+import { MediaEvent } from '../src/events';
+import { MediaSession } from '../src/session';
+import {
+    MediaContentType,
+    MediaElement,
+    MediaEventType,
+    MediaStreamType,
+    MpSDKInstance,
+    PlaybackState,
+} from '../src/types';
+
+class FakeMediaElement implements MediaElement {
+    currentTime = 0;
+    duration = NaN;
+    listeners: { [type: string]: Array<() => void> } = {};
+
+    addEventListener(type: string, listener: () => void) {
+        this.listeners[type] = [...(this.listeners[type] || []), listener];
+    }
+
+    removeEventListener(type: string, listener: () => void) {
+        this.listeners[type] = (this.listeners[type] || []).filter(
+            registered => registered !== listener,
+        );
+    }
+
+    dispatch(type: string) {
+        (this.listeners[type] || []).forEach(listener => listener());
+    }
+
+    listenerCount(): number {
+        return Object.keys(this.listeners).reduce(
+            (count, type) => count + this.listeners[type].length,
+            0,
+        );
+    }
+}
+
+let sandbox: SinonSandbox;
+let mp: MpSDKInstance;
+let mpMedia: MediaSession;
+let element: FakeMediaElement;
+let adapter: MediaElementAdapter;
+
+describe('MediaElementAdapter', () => {
+    beforeEach(() => {
+        sandbox = sinon.createSandbox();
+        mp = {
+            logBaseEvent: (event: MediaEvent) => {},
+            logger: (message: string) => {},
+        };
+
+        mpMedia = new MediaSession(
+            mp,
+            '023134',
+            'Immigrant Song',
+            0,
+            MediaContentType.Video,
+            MediaStreamType.OnDemand,
+        );
+        element = new FakeMediaElement();
+        adapter = new MediaElementAdapter(element, mpMedia);
+        mpMedia.logMediaSessionStart();
+    });
+
+    afterEach(() => {
+        sandbox.restore();
+    });
+
+    it('should log play and pause', () => {
+        const bond = sinon.spy(mp, 'logBaseEvent');
+
+        element.currentTime = 1.5;
+        element.dispatch('play');
+        element.dispatch('playing');
+        element.dispatch('pause');
+
+        expect(bond.callCount).to.eq(2);
+        expect(bond.args[0][0].eventType).to.eq(MediaEventType.Play);
+        expect(bond.args[0][0].playheadPosition).to.eq(1500);
+        expect(bond.args[1][0].eventType).to.eq(MediaEventType.Pause);
+        expect(mpMedia.playbackState).to.eq(PlaybackState.Paused);
+    });
+
+    it('should log seeking and buffering', () => {
+        const bond = sinon.spy(mp, 'logBaseEvent');
+
+        element.dispatch('play');
+        element.currentTime = 30;
+        element.dispatch('seeking');
+        element.dispatch('waiting');
+        element.dispatch('seeked');
+        element.dispatch('playing');
+
+        expect(bond.args.map(args => args[0].eventType)).to.eql([
+            MediaEventType.Play,
+            MediaEventType.SeekStart,
+            MediaEventType.BufferStart,
+            MediaEventType.BufferEnd,
+            MediaEventType.SeekEnd,
+        ]);
+        expect(bond.args[1][0].seekPosition).to.eq(30000);
+        expect(mpMedia.playbackState).to.eq(PlaybackState.Playing);
+    });
+
+    it('should log a pause while waiting and the play that resumes it', () => {
+        const bond = sinon.spy(mp, 'logBaseEvent');
+
+        element.dispatch('play');
+        element.dispatch('playing');
+        element.dispatch('waiting');
+        element.dispatch('pause');
+        element.dispatch('play');
+        element.dispatch('playing');
+
+        expect(bond.args.map(args => args[0].eventType)).to.eql([
+            MediaEventType.Play,
+            MediaEventType.BufferStart,
+            MediaEventType.Pause,
+            MediaEventType.BufferEnd,
+            MediaEventType.Play,
+        ]);
+        expect(mpMedia.playbackState).to.eq(PlaybackState.Playing);
+    });
+
+    it('should measure buffering with the session clock', () => {
+        let time = 1000;
+        const timedMedia = MediaSession.create(mp, {
+            content: {
+                contentId: '023134',
+                title: 'Immigrant Song',
+                duration: 0,
+                contentType: MediaContentType.Video,
+                streamType: MediaStreamType.OnDemand,
+            },
+            clock: { now: () => 0, monotonic: () => time },
+        });
+        const timedElement = new FakeMediaElement();
+        new MediaElementAdapter(timedElement, timedMedia);
+        timedMedia.logMediaSessionStart();
+        const bond = sinon.spy(mp, 'logBaseEvent');
+
+        timedElement.dispatch('play');
+        timedElement.dispatch('waiting');
+        time += 2500;
+        timedElement.dispatch('playing');
+
+        const bufferEnd: MediaEvent = bond.args[2][0];
+        expect(bufferEnd.eventType).to.eq(MediaEventType.BufferEnd);
+        expect(bufferEnd.bufferDuration).to.eq(2500);
+    });
+
+    it('should log playhead updates and content end', () => {
+        const bond = sinon.spy(mp, 'logBaseEvent');
+
+        element.dispatch('play');
+        element.currentTime = 12.3456;
+        element.dispatch('timeupdate');
+        element.dispatch('ended');
+
+        expect(bond.args[1][0].eventType).to.eq(
+            MediaEventType.UpdatePlayheadPosition,
+        );
+        expect(bond.args[1][0].playheadPosition).to.eq(12346);
+        expect(bond.args[2][0].eventType).to.eq(MediaEventType.Pause);
+        expect(bond.args[3][0].eventType).to.eq(MediaEventType.ContentEnd);
+    });
+
+    it('should update the session duration', () => {
+        element.duration = Infinity;
+        element.dispatch('durationchange');
+        expect(mpMedia.duration).to.eq(0);
+
+        element.duration = 120.5;
+        element.dispatch('durationchange');
+        expect(mpMedia.duration).to.eq(120500);
+    });
+
+    it('should remove every listener on detach', () => {
+        const bond = sinon.spy(mp, 'logBaseEvent');
+        expect(element.listenerCount()).to.eq(9);
+
+        adapter.detach();
+        element.dispatch('play');
+
+        expect(element.listenerCount()).to.eq(0);
+        expect(bond.called).to.eq(false);
+    });
+});
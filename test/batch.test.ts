@@ -0,0 +1,108 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { MediaEventBatcher } from '../src/batch';
+import { MediaEvent } from '../src/events';
+import {
+    MediaContentType,
+    MediaEventType,
+    MediaMiddlewareContext,
+    MediaStreamType,
+} from '../src/types';
+
+const createContext = (eventType: MediaEventType): MediaMiddlewareContext => ({
+    event: new MediaEvent(
+        eventType,
+        'Immigrant Song',
+        '023134',
+        120000,
+        MediaContentType.Video,
+        MediaStreamType.OnDemand,
+        '1234567890',
+    ),
+});
+
+const sentTypes = (send: sinon.SinonSpy) =>
+    send.args.map(args => args[0].event.eventType);
+
+let clock: sinon.SinonFakeTimers;
+let send: sinon.SinonSpy;
+let batcher: MediaEventBatcher;
+
+describe('MediaEventBatcher', () => {
+    beforeEach(() => {
+        clock = sinon.useFakeTimers();
+        send = sinon.fake();
+        batcher = new MediaEventBatcher({ window: 1000, timers: clock }, send);
+    });
+
+    afterEach(() => {
+        clock.restore();
+    });
+
+    describe('#add', () => {
+        it('should hold events until the window elapses', () => {
+            batcher.add(createContext(MediaEventType.Milestone));
+            clock.tick(999);
+            expect(send.called).to.eq(false);
+
+            clock.tick(1);
+            expect(sentTypes(send)).to.eql([MediaEventType.Milestone]);
+
+            clock.tick(5000);
+            expect(send.callCount).to.eq(1);
+        });
+
+        it('should only keep the latest playhead and QoS updates', () => {
+            const latestPlayhead = createContext(
+                MediaEventType.UpdatePlayheadPosition,
+            );
+
+            batcher.add(createContext(MediaEventType.UpdatePlayheadPosition));
+            batcher.add(createContext(MediaEventType.UpdateQoS));
+            batcher.add(createContext(MediaEventType.UpdatePlayheadPosition));
+            batcher.add(createContext(MediaEventType.UpdateQoS));
+            batcher.add(latestPlayhead);
+            clock.tick(1000);
+
+            expect(sentTypes(send)).to.eql([
+                MediaEventType.UpdateQoS,
+                MediaEventType.UpdatePlayheadPosition,
+            ]);
+            expect(send.args[1][0]).to.eq(latestPlayhead);
+        });
+
+        it('should not coalesce updates separated by other events', () => {
+            batcher.add(createContext(MediaEventType.UpdatePlayheadPosition));
+            batcher.add(createContext(MediaEventType.Milestone));
+            batcher.add(createContext(MediaEventType.UpdatePlayheadPosition));
+            clock.tick(1000);
+
+            expect(sentTypes(send)).to.eql([
+                MediaEventType.UpdatePlayheadPosition,
+                MediaEventType.Milestone,
+                MediaEventType.UpdatePlayheadPosition,
+            ]);
+        });
+
+        it('should flush on state changing events', () => {
+            batcher.add(createContext(MediaEventType.UpdatePlayheadPosition));
+            batcher.add(createContext(MediaEventType.Pause));
+
+            expect(sentTypes(send)).to.eql([
+                MediaEventType.UpdatePlayheadPosition,
+                MediaEventType.Pause,
+            ]);
+            expect(clock.countTimers()).to.eq(0);
+        });
+    });
+
+    describe('#flush', () => {
+        it('should send held events and stop the timer', () => {
+            batcher.add(createContext(MediaEventType.UpdateQoS));
+            batcher.flush();
+
+            expect(sentTypes(send)).to.eql([MediaEventType.UpdateQoS]);
+            expect(clock.countTimers()).to.eq(0);
+        });
+    });
+});
@@ -0,0 +1,115 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { MediaEventEmitter } from '../src/emitter';
+import { MediaEvent } from '../src/events';
+import {
+    MediaContentType,
+    MediaEventType,
+    MediaStreamType,
+} from '../src/types';
+
+const createEvent = (eventType: MediaEventType): MediaEvent =>
+    new MediaEvent(
+        eventType,
+        'Immigrant Song',
+        '023134',
+        120000,
+        MediaContentType.Video,
+        MediaStreamType.OnDemand,
+        '1234567890',
+    );
+
+let emitter: MediaEventEmitter;
+let onError: sinon.SinonSpy;
+
+describe('MediaEventEmitter', () => {
+    beforeEach(() => {
+        onError = sinon.fake();
+        emitter = new MediaEventEmitter(onError);
+    });
+
+    describe('#on', () => {
+        it('should only call callbacks for subscribed event types', () => {
+            const playCallback = sinon.fake();
+            const seekCallback = sinon.fake();
+            const allCallback = sinon.fake();
+
+            emitter.on(MediaEventType.Play, playCallback);
+            emitter.on(
+                [MediaEventType.SeekStart, MediaEventType.SeekEnd],
+                seekCallback,
+            );
+            emitter.on('*', allCallback);
+
+            emitter.emit(createEvent(MediaEventType.Play));
+            emitter.emit(createEvent(MediaEventType.SeekEnd));
+            emitter.emit(createEvent(MediaEventType.Pause));
+
+            expect(playCallback.callCount).to.eq(1);
+            expect(seekCallback.callCount).to.eq(1);
+            expect(allCallback.callCount).to.eq(3);
+        });
+
+        it('should return an unsubscribe function', () => {
+            const callback = sinon.fake();
+
+            const unsubscribe = emitter.on('*', callback);
+            unsubscribe();
+            emitter.emit(createEvent(MediaEventType.Play));
+
+            expect(callback.called).to.eq(false);
+        });
+
+        it('should isolate errors thrown by callbacks', () => {
+            const error = new Error('Player UI crashed');
+            const callback = sinon.fake();
+
+            emitter.on('*', () => {
+                throw error;
+            });
+            emitter.on('*', callback);
+            emitter.emit(createEvent(MediaEventType.Play));
+
+            expect(callback.calledOnce).to.eq(true);
+            expect(onError.calledOnceWith(error)).to.eq(true);
+        });
+    });
+
+    describe('#once', () => {
+        it('should only call the callback once', () => {
+            const callback = sinon.fake();
+
+            emitter.once(MediaEventType.Play, callback);
+            emitter.emit(createEvent(MediaEventType.Pause));
+            emitter.emit(createEvent(MediaEventType.Play));
+            emitter.emit(createEvent(MediaEventType.Play));
+
+            expect(callback.calledOnce).to.eq(true);
+        });
+    });
+
+    describe('#off', () => {
+        it('should remove some of the subscribed event types', () => {
+            const callback = sinon.fake();
+
+            emitter.on([MediaEventType.Play, MediaEventType.Pause], callback);
+            emitter.off(MediaEventType.Play, callback);
+            emitter.emit(createEvent(MediaEventType.Play));
+            emitter.emit(createEvent(MediaEventType.Pause));
+
+            expect(callback.calledOnce).to.eq(true);
+            expect(callback.args[0][0].eventType).to.eq(MediaEventType.Pause);
+        });
+
+        it('should remove every subscription with a wildcard', () => {
+            const callback = sinon.fake();
+
+            emitter.on(MediaEventType.Play, callback);
+            emitter.on('*', callback);
+            emitter.off('*', callback);
+            emitter.emit(createEvent(MediaEventType.Play));
+
+            expect(callback.called).to.eq(false);
+        });
+    });
+});
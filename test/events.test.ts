@@ -114,6 +114,22 @@ describe('MediaEvent', () => {
 
             expect(mediaEvent.playheadPosition).to.eq(42);
         });
+
+        it('uses the id generator for the event id', () => {
+            const mediaEvent = new MediaEvent(
+                MediaEventType.Play,
+                'Immigrant Song',
+                '023134',
+                120000,
+                MediaContentType.Video,
+                MediaStreamType.OnDemand,
+                '1234567890',
+                {},
+                () => 'event-id',
+            );
+
+            expect(mediaEvent.id).to.eq('event-id');
+        });
     });
     describe('toPageEvent', () => {
         it('returns a valid Media Content Object', () => {
@@ -194,6 +210,45 @@ describe('MediaEvent', () => {
             expect(mediaEvent.toPageEvent()).to.eql(expectedObject);
         });
 
+        it('returns a valid Milestone Object', () => {
+            const song = {
+                contentId: '023134',
+                title: 'Immigrant Song',
+                duration: 120000,
+                contentType: MediaContentType.Video,
+                streamType: MediaStreamType.OnDemand,
+            };
+
+            const mediaEvent = new MediaEvent(
+                MediaEventType.Milestone,
+                song.title,
+                song.contentId,
+                song.duration,
+                song.contentType,
+                song.streamType,
+                '1234567890',
+            );
+
+            mediaEvent.milestonePercent = 75;
+
+            const expectedObject = {
+                name: 'Milestone',
+                messageType: MessageType.PageEvent,
+                eventType: EventType.Media,
+                data: {
+                    content_id: '023134',
+                    content_title: 'Immigrant Song',
+                    content_duration: 120000,
+                    content_type: 'Video',
+                    stream_type: 'OnDemand',
+                    milestone_percent: 75,
+                    media_session_id: '1234567890',
+                },
+            };
+
+            expect(mediaEvent.toPageEvent()).to.eql(expectedObject);
+        });
+
         it('returns a valid Buffer Object', () => {
             const song = {
                 contentId: '023134',
@@ -1,4 +1,12 @@
-import MediaSession from '../src';
+import MediaSession, {
+    IllegalTransitionPolicy,
+    InMemoryStorage,
+    MediaElementAdapter,
+    MediaPlaylist,
+    MediaSession as NamedMediaSession,
+    PlaybackState,
+    PlaylistStartType,
+} from '../src';
 import { expect } from 'chai';
 import sinon, { SinonSandbox } from 'sinon';
 import { MediaEvent } from '../src/events';
@@ -475,4 +483,16 @@ describe('TS Integration Tests', () => {
             });
         });
     });
+
+    describe('Exports', () => {
+        it('should export the public classes and enums by name', () => {
+            expect(NamedMediaSession).to.eq(MediaSession);
+            expect(MediaElementAdapter).to.be.a('function');
+            expect(InMemoryStorage).to.be.a('function');
+            expect(PlaybackState.Playing).to.eq('Playing');
+            expect(IllegalTransitionPolicy.Drop).to.eq('Drop');
+            expect(MediaPlaylist).to.be.a('function');
+            expect(PlaylistStartType.Autoplay).to.eq('Autoplay');
+        });
+    });
 });
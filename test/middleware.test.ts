@@ -0,0 +1,161 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { MediaEvent } from '../src/events';
+import { MediaMiddlewareChain } from '../src/middleware';
+import {
+    MediaContentType,
+    MediaEventType,
+    MediaMiddlewareContext,
+    MediaStreamType,
+} from '../src/types';
+
+const createContext = (eventType: MediaEventType): MediaMiddlewareContext => ({
+    event: new MediaEvent(
+        eventType,
+        'Immigrant Song',
+        '023134',
+        120000,
+        MediaContentType.Video,
+        MediaStreamType.OnDemand,
+        '1234567890',
+    ),
+});
+
+let chain: MediaMiddlewareChain;
+let onError: sinon.SinonSpy;
+let send: sinon.SinonSpy;
+
+describe('MediaMiddlewareChain', () => {
+    beforeEach(() => {
+        onError = sinon.fake();
+        send = sinon.fake();
+        chain = new MediaMiddlewareChain(onError);
+    });
+
+    describe('#run', () => {
+        it('should send the context when there are no middlewares', () => {
+            const context = createContext(MediaEventType.Play);
+
+            chain.run(context, send);
+
+            expect(send.calledOnceWith(context)).to.eq(true);
+        });
+
+        it('should call middlewares in the order they were added', () => {
+            const calls: string[] = [];
+            chain.add((context, next) => {
+                calls.push('first');
+                next();
+            });
+            chain.add((context, next) => {
+                calls.push('second');
+                next();
+            });
+
+            chain.run(createContext(MediaEventType.Play), send);
+
+            expect(calls).to.eql(['first', 'second']);
+            expect(send.calledOnce).to.eq(true);
+        });
+
+        it('should drop an event when next is not called', () => {
+            const skipped = sinon.fake();
+            chain.add(() => {});
+            chain.add(skipped);
+
+            chain.run(createContext(MediaEventType.Play), send);
+
+            expect(skipped.called).to.eq(false);
+            expect(send.called).to.eq(false);
+        });
+
+        it('should split an event when next is called several times', () => {
+            const pause = createContext(MediaEventType.Pause);
+            chain.add((context, next) => {
+                next();
+                next(pause);
+            });
+
+            const play = createContext(MediaEventType.Play);
+            chain.run(play, send);
+
+            expect(send.callCount).to.eq(2);
+            expect(send.args[0][0]).to.eq(play);
+            expect(send.args[1][0]).to.eq(pause);
+        });
+
+        it('should continue when next is called asynchronously', async () => {
+            chain.add(async (context, next) => {
+                await Promise.resolve();
+                next();
+            });
+
+            chain.run(createContext(MediaEventType.Play), send);
+            expect(send.called).to.eq(false);
+
+            await Promise.resolve();
+            await Promise.resolve();
+            expect(send.calledOnce).to.eq(true);
+        });
+
+        it('should settle once async middlewares have passed the event on', async () => {
+            chain.add(async (context, next) => {
+                await Promise.resolve();
+                next();
+            });
+            chain.add(async (context, next) => {
+                await Promise.resolve();
+                next();
+            });
+
+            chain.run(createContext(MediaEventType.Play), send);
+            await chain.settled();
+
+            expect(send.calledOnce).to.eq(true);
+        });
+
+        it('should not catch errors thrown after the middleware passes the event on', () => {
+            const error = new Error('Send failed');
+            chain.add((context, next) => next());
+
+            expect(() =>
+                chain.run(createContext(MediaEventType.Play), () => {
+                    throw error;
+                }),
+            ).to.throw(error);
+            expect(onError.called).to.eq(false);
+        });
+
+        it('should report middleware errors and drop the event', async () => {
+            const error = new Error('Middleware failed');
+            chain.add(() => {
+                throw error;
+            });
+            chain.run(createContext(MediaEventType.Play), send);
+
+            chain = new MediaMiddlewareChain(onError);
+            chain.add(() => Promise.reject(error));
+            chain.run(createContext(MediaEventType.Play), send);
+            await Promise.resolve();
+
+            expect(send.called).to.eq(false);
+            expect(onError.args).to.eql([[error], [error]]);
+        });
+    });
+
+    describe('#remove', () => {
+        it('should remove a middleware', () => {
+            const dropAll = () => {};
+            const removeDropAll = chain.add(dropAll);
+
+            removeDropAll();
+            chain.run(createContext(MediaEventType.Play), send);
+
+            chain.add(dropAll);
+            chain.remove(dropAll);
+            chain.run(createContext(MediaEventType.Play), send);
+
+            expect(send.callCount).to.eq(2);
+        });
+    });
+});
@@ -0,0 +1,209 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { MediaEvent } from '../src/events';
+import { MediaPlaylist } from '../src/playlist';
+import {
+    MediaContent,
+    MediaContentType,
+    MediaEventType,
+    MediaStreamType,
+    MpSDKInstance,
+    PlaybackState,
+    PlaylistStartType,
+} from '../src/types';
+
+let mp: MpSDKInstance;
+let episodes: MediaContent[];
+let playlist: MediaPlaylist;
+let time: number;
+
+describe('MediaPlaylist', () => {
+    beforeEach(() => {
+        mp = {
+            logBaseEvent: (event: MediaEvent) => {},
+            logger: (message: string) => {},
+        };
+        episodes = [1, 2, 3].map(episode => ({
+            contentId: `episode-${episode}`,
+            title: `Episode ${episode}`,
+            duration: 60000,
+            contentType: MediaContentType.Video,
+            streamType: MediaStreamType.OnDemand,
+        }));
+        time = 1000;
+        let id = 0;
+        playlist = new MediaPlaylist(mp, {
+            items: episodes,
+            clock: { now: () => time },
+            idGenerator: () => `id-${++id}`,
+            baseCustomAttributes: { player: 'web' },
+        });
+    });
+
+    describe('#start', () => {
+        it('should start a session with the playlist attributes', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            const mediaSession = playlist.start(1)!;
+
+            expect(mediaSession.contentId).to.eq('episode-2');
+            expect(mediaSession.playbackState).to.eq(PlaybackState.Started);
+            expect(playlist.currentSession).to.eq(mediaSession);
+            expect(playlist.currentIndex).to.eq(1);
+
+            const sessionStart = bond.lastCall.args[0];
+            expect(sessionStart.eventType).to.eq(MediaEventType.SessionStart);
+            expect(sessionStart.customAttributes).to.eql({
+                player: 'web',
+                playlist_id: 'id-1',
+                playlist_item_index: 1,
+                playlist_start_type: 'User',
+            });
+        });
+
+        it('should let the config set up the session before Session Start', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            const listener = sinon.spy();
+            playlist = new MediaPlaylist(mp, {
+                items: episodes,
+                clock: { now: () => time },
+                onSessionCreated: (mediaSession, index) => {
+                    mediaSession.on(MediaEventType.SessionStart, listener);
+                    mediaSession.addMiddleware((context, next) => {
+                        context.event.customAttributes = {
+                            ...context.event.customAttributes,
+                            item: index,
+                        };
+                        next(context);
+                    });
+                },
+            });
+
+            playlist.start(1);
+
+            expect(listener.calledOnce).to.eq(true);
+            const sessionStart = bond.lastCall.args[0];
+            expect(sessionStart.eventType).to.eq(MediaEventType.SessionStart);
+            expect(sessionStart.customAttributes).to.include({ item: 1 });
+        });
+
+        it('should end the current session', () => {
+            const first = playlist.start()!;
+            const second = playlist.start(2)!;
+
+            expect(first.playbackState).to.eq(PlaybackState.Idle);
+            expect(second.playbackState).to.eq(PlaybackState.Started);
+            expect(second.sessionId).not.to.eq(first.sessionId);
+        });
+
+        it('should not start an item outside of the queue', () => {
+            const logger = sinon.spy(mp, 'logger');
+
+            expect(playlist.start(3)).to.be.undefined;
+            expect(logger.calledOnce).to.eq(true);
+        });
+    });
+
+    describe('#playNext', () => {
+        it('should start the next item as autoplay', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            playlist.start();
+            const next = playlist.playNext()!;
+
+            expect(next.contentId).to.eq('episode-2');
+            expect(bond.lastCall.args[0].customAttributes).to.include({
+                playlist_id: 'id-1',
+                playlist_item_index: 1,
+                playlist_start_type: PlaylistStartType.Autoplay,
+            });
+        });
+
+        it('should stop the playlist after the last item', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            playlist.start(2);
+
+            expect(playlist.playNext()).to.be.undefined;
+            expect(playlist.currentSession).to.be.undefined;
+            expect(bond.lastCall.args[0].eventType).to.eq(
+                MediaEventType.PlaylistSummary,
+            );
+        });
+    });
+
+    describe('#stop', () => {
+        it('should log a Playlist Summary after the last Session Summary', async () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            const first = playlist.start()!;
+            first.logPlay();
+            time += 60000;
+            first.logMediaContentEnd();
+            const second = playlist.playNext()!;
+            second.logPlay();
+            time += 20000;
+            const third = playlist.start(2)!;
+            third.logPlay();
+            time += 10000;
+            await playlist.stop();
+
+            const eventTypes = bond.args.map(args => args[0].eventType);
+            expect(eventTypes.slice(-2)).to.eql([
+                MediaEventType.SessionSummary,
+                MediaEventType.PlaylistSummary,
+            ]);
+            expect(bond.lastCall.args[0].customAttributes).to.eql({
+                player: 'web',
+                playlist_id: 'id-1',
+                playlist_item_index: 2,
+                playlist_start_type: 'User',
+                playlist_item_count: 3,
+                playlist_items_started: 3,
+                playlist_items_autoplayed: 1,
+                playlist_items_completed: 1,
+                playlist_start_time: 1000,
+                playlist_end_time: 91000,
+                media_playlist_time_spent: 90000,
+                media_playlist_content_time_spent: 90000,
+            });
+        });
+
+        it('should log the Playlist Summary through the middleware and batching of the last session', async () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            const listener = sinon.spy();
+
+            const mediaSession = playlist.start()!;
+            mediaSession.on(MediaEventType.PlaylistSummary, listener);
+            mediaSession.addMiddleware((context, next) => {
+                context.event.customAttributes = {
+                    ...context.event.customAttributes,
+                    enriched: true,
+                };
+                next(context);
+            });
+            mediaSession.enableBatching({ window: 5000 });
+            mediaSession.logPlay();
+            time += 10000;
+            await playlist.stop();
+
+            expect(listener.calledOnce).to.eq(true);
+            const playlistSummary = bond.lastCall.args[0];
+            expect(playlistSummary.eventType).to.eq(
+                MediaEventType.PlaylistSummary,
+            );
+            expect(playlistSummary.customAttributes).to.include({
+                enriched: true,
+                playlist_items_started: 1,
+            });
+        });
+
+        it('should not log a Playlist Summary before the playlist starts', async () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            await playlist.stop();
+
+            expect(bond.called).to.eq(false);
+        });
+    });
+});
@@ -0,0 +1,49 @@
+import { expect } from 'chai';
+import { WatchedRanges } from '../src/ranges';
+
+describe('WatchedRanges', () => {
+    it('should merge overlapping and touching ranges', () => {
+        const ranges = new WatchedRanges();
+
+        ranges.add(10000, 20000);
+        ranges.add(0, 5000);
+        ranges.add(15000, 30000);
+        ranges.add(5000, 6000);
+
+        expect(ranges.toArray()).to.eql([
+            [0, 6000],
+            [10000, 30000],
+        ]);
+        expect(ranges.getTotal()).to.eq(26000);
+    });
+
+    it('should ignore empty ranges', () => {
+        const ranges = new WatchedRanges([[5000, 5000]]);
+
+        ranges.add(3000, 1000);
+
+        expect(ranges.toArray()).to.eql([]);
+        expect(ranges.getTotal()).to.eq(0);
+    });
+
+    it('should only count the covered part of the content', () => {
+        const ranges = new WatchedRanges([
+            [0, 25000],
+            [90000, 110000],
+        ]);
+
+        expect(ranges.getPercent(100000)).to.eq(35);
+        expect(ranges.getPercent(0)).to.eq(0);
+    });
+
+    it('should set one bit per percent that was at least half watched', () => {
+        const ranges = new WatchedRanges([
+            [0, 4000],
+            [4500, 4600],
+            [99000, 100000],
+        ]);
+
+        expect(ranges.getBitmap(100000)).to.eq('f000000000000000000000001');
+        expect(ranges.getBitmap(0)).to.eq('');
+    });
+});
@@ -2,10 +2,12 @@ import { MediaSession } from '../src/session';
 import { expect } from 'chai';
 import sinon, { SinonSandbox } from 'sinon';
 import { MediaEvent } from '../src/events';
+import { InMemoryStorage } from '../src/storage';
 import {
     MessageType,
     MediaEventType,
     MediaContent,
+    ProgramContent,
     MediaContentType,
     AdBreak,
     AdContent,
@@ -15,6 +17,8 @@ import {
     QoS,
     EventType,
     ValidMediaAttributeKeys,
+    PlaybackState,
+    IllegalTransitionPolicy,
 } from '../src/types';
 
 let sandbox: SinonSandbox;
@@ -1270,4 +1274,2471 @@ describe('MediaSession', () => {
             });
         });
     });
+
+    describe('#playbackState', () => {
+        it('should follow the logged events', () => {
+            expect(mpMedia.playbackState).to.eq(PlaybackState.Idle);
+
+            mpMedia.logMediaSessionStart();
+            expect(mpMedia.playbackState).to.eq(PlaybackState.Started);
+
+            mpMedia.logPlay();
+            expect(mpMedia.playbackState).to.eq(PlaybackState.Playing);
+
+            mpMedia.logBufferStart(1000, 10, 50);
+            expect(mpMedia.playbackState).to.eq(PlaybackState.Buffering);
+
+            mpMedia.logBufferEnd(1000, 100, 50);
+            expect(mpMedia.playbackState).to.eq(PlaybackState.Playing);
+
+            mpMedia.logMediaSessionEnd();
+            expect(mpMedia.playbackState).to.eq(PlaybackState.Idle);
+        });
+
+        it('should return to Playing when a seek ends during buffering', () => {
+            const logger = sinon.spy(mp, 'logger');
+
+            mpMedia.logMediaSessionStart();
+            mpMedia.logPlay();
+            mpMedia.logSeekStart(1000);
+            mpMedia.logBufferStart(1000, 10, 1000);
+            mpMedia.logSeekEnd(5000);
+            expect(mpMedia.playbackState).to.eq(PlaybackState.Buffering);
+
+            mpMedia.logBufferEnd(1000, 100, 5000);
+            expect(mpMedia.playbackState).to.eq(PlaybackState.Playing);
+            expect(logger.called).to.eq(false);
+        });
+    });
+
+    describe('#illegalTransitionPolicy', () => {
+        it('should warn and log the event by default', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            const logger = sinon.spy(mp, 'logger');
+
+            mpMedia.logPause();
+
+            expect(logger.calledOnce).to.eq(true);
+            expect(logger.args[0][0]).to.eq(
+                'Cannot log Pause while playback state is Idle',
+            );
+            expect(bond.args[0][0].eventType).to.eq(MediaEventType.Pause);
+            expect(mpMedia.playbackState).to.eq(PlaybackState.Paused);
+        });
+
+        it('should drop illegal events', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            const logger = sinon.spy(mp, 'logger');
+            mpMedia.illegalTransitionPolicy = IllegalTransitionPolicy.Drop;
+
+            mpMedia.logMediaSessionStart();
+            mpMedia.logAdEnd();
+
+            expect(logger.called).to.eq(false);
+            expect(bond.calledOnce).to.eq(true);
+            expect(mpMedia.playbackState).to.eq(PlaybackState.Started);
+        });
+
+        it('should throw on illegal events', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            mpMedia.illegalTransitionPolicy = IllegalTransitionPolicy.Throw;
+
+            mpMedia.logMediaSessionStart();
+            mpMedia.logSegmentStart({
+                title: 'The Gods Made Heavy Metal',
+                index: 0,
+                duration: 5000,
+            });
+            mpMedia.logSegmentEnd();
+
+            expect(() => mpMedia.logSegmentEnd()).to.throw(
+                'Cannot log Segment End while playback state is Started',
+            );
+            expect(bond.callCount).to.eq(4);
+        });
+    });
+
+    describe('#enableHeartbeat', () => {
+        it('should log the playhead position while playing', () => {
+            const clock = sinon.useFakeTimers();
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            let position = 0;
+
+            mpMedia.enableHeartbeat({
+                getPlayheadPosition: () => (position += 1000),
+                interval: 1000,
+                timers: clock,
+            });
+
+            mpMedia.logMediaSessionStart();
+            clock.tick(5000);
+            expect(bond.callCount).to.eq(1);
+
+            mpMedia.logPlay();
+            clock.tick(2000);
+
+            expect(bond.callCount).to.eq(4);
+            expect(bond.args[2][0].eventType).to.eq(
+                MediaEventType.UpdatePlayheadPosition,
+            );
+            expect(bond.args[2][0].playheadPosition).to.eq(1000);
+            expect(bond.args[3][0].playheadPosition).to.eq(2000);
+
+            clock.restore();
+        });
+
+        it('should stop while paused, buffering or ended', () => {
+            const clock = sinon.useFakeTimers();
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            mpMedia.enableHeartbeat({
+                getPlayheadPosition: () => 42,
+                interval: 1000,
+                timers: clock,
+            });
+
+            mpMedia.logMediaSessionStart();
+            mpMedia.logPlay();
+            mpMedia.logPause();
+            clock.tick(3000);
+            mpMedia.logPlay();
+            mpMedia.logBufferStart(1000, 10, 42);
+            clock.tick(3000);
+            mpMedia.logBufferEnd(1000, 100, 42);
+            mpMedia.logMediaSessionEnd();
+            clock.tick(3000);
+
+            expect(
+                bond.args.filter(
+                    args =>
+                        args[0].eventType ===
+                        MediaEventType.UpdatePlayheadPosition,
+                ),
+            ).to.be.empty;
+            expect(clock.countTimers()).to.eq(0);
+
+            clock.restore();
+        });
+
+        it('should stop when disabled', () => {
+            const clock = sinon.useFakeTimers();
+
+            mpMedia.enableHeartbeat({
+                getPlayheadPosition: () => 42,
+                timers: clock,
+            });
+            mpMedia.logMediaSessionStart();
+            mpMedia.logPlay();
+            expect(clock.countTimers()).to.eq(1);
+
+            mpMedia.disableHeartbeat();
+            expect(clock.countTimers()).to.eq(0);
+
+            clock.restore();
+        });
+    });
+
+    describe('dependencies', () => {
+        let time: number;
+        let ids: number;
+        let deterministicMedia: MediaSession;
+
+        beforeEach(() => {
+            time = 1000;
+            ids = 0;
+            deterministicMedia = new MediaSession(
+                mp,
+                song.contentId,
+                song.title,
+                song.duration,
+                song.contentType,
+                song.streamType,
+                false,
+                true,
+                {},
+                {
+                    clock: { now: () => time },
+                    idGenerator: () => `id-${(ids += 1)}`,
+                },
+            );
+        });
+
+        it('should use the injected id generator', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            deterministicMedia.logMediaSessionStart();
+
+            expect(deterministicMedia.sessionId).to.eq('id-1');
+            expect(bond.args[0][0].id).to.eq('id-2');
+            expect(bond.args[0][0].mediaSessionID).to.eq('id-1');
+        });
+
+        it('should use the injected clock for time spent', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            deterministicMedia.logMediaSessionStart();
+            time += 500;
+            deterministicMedia.logPlay();
+            time += 3000;
+            deterministicMedia.logAdStart({
+                id: '4423210',
+                title: 'What?! Nobody rips off my kids but me!',
+                duration: 60000,
+            });
+            time += 2000;
+            deterministicMedia.logAdEnd();
+            time += 1500;
+            deterministicMedia.logPause();
+            time += 1000;
+            deterministicMedia.logMediaSessionEnd();
+
+            const adSummary = bond.args[4][0];
+            expect(adSummary.eventType).to.eq(MediaEventType.AdSummary);
+            expect(
+                adSummary.customAttributes[
+                    ValidMediaAttributeKeys.adContentStartTimestampKey
+                ],
+            ).to.eq(4500);
+            expect(
+                adSummary.customAttributes[
+                    ValidMediaAttributeKeys.adContentEndTimestampKey
+                ],
+            ).to.eq(6500);
+
+            const sessionSummary = bond.args[7][0];
+            expect(sessionSummary.eventType).to.eq(
+                MediaEventType.SessionSummary,
+            );
+            expect(sessionSummary.customAttributes).to.include({
+                media_session_start_time: 1000,
+                media_session_end_time: 9000,
+                media_time_spent: 8000,
+                media_content_time_spent: 6500,
+                media_total_ad_time_spent: 2000,
+            });
+        });
+
+        it('should prefer the monotonic clock for playback time', () => {
+            let monotonic = 0;
+            const bond = sinon.fake();
+            const monotonicMedia = new MediaSession(
+                mp,
+                song.contentId,
+                song.title,
+                song.duration,
+                song.contentType,
+                song.streamType,
+                false,
+                true,
+                {},
+                {
+                    clock: { now: () => time, monotonic: () => monotonic },
+                },
+            );
+            monotonicMedia.mediaEventListener = bond;
+
+            monotonicMedia.logMediaSessionStart();
+            monotonicMedia.logPlay();
+            // Wall clock jumps backwards, i.e. after a system time change
+            time -= 100000;
+            monotonic += 4000;
+            monotonicMedia.logMediaSessionEnd();
+
+            expect(
+                bond.args[3][0].customAttributes[
+                    ValidMediaAttributeKeys.contentTimeSpentKey
+                ],
+            ).to.eq(4000);
+        });
+    });
+
+    describe('.create', () => {
+        it('should create a session from a config object', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            const configuredMedia = MediaSession.create(mp, {
+                content: song,
+                logPageEvent: true,
+                logMediaEvent: false,
+                baseCustomAttributes: { player_name: 'Led Zeppelin Player' },
+                mediaContentCompleteLimit: 90,
+                illegalTransitionPolicy: IllegalTransitionPolicy.Drop,
+                idGenerator: () => 'session-id',
+            });
+
+            expect(configuredMedia.contentId).to.eq(song.contentId);
+            expect(configuredMedia.title).to.eq(song.title);
+            expect(configuredMedia.duration).to.eq(song.duration);
+            expect(configuredMedia.contentType).to.eq(song.contentType);
+            expect(configuredMedia.streamType).to.eq(song.streamType);
+            expect(configuredMedia.logPageEvent).to.eq(true);
+            expect(configuredMedia.logMediaEvent).to.eq(false);
+            expect(configuredMedia.mediaContentCompleteLimit).to.eq(90);
+            expect(configuredMedia.illegalTransitionPolicy).to.eq(
+                IllegalTransitionPolicy.Drop,
+            );
+
+            configuredMedia.logMediaSessionStart();
+
+            expect(configuredMedia.sessionId).to.eq('session-id');
+            expect(bond.calledOnce).to.eq(true);
+            expect(bond.args[0][0].data).to.include({
+                media_session_id: 'session-id',
+                player_name: 'Led Zeppelin Player',
+            });
+        });
+
+        it('should use the same defaults as the constructor', () => {
+            const configuredMedia = MediaSession.create(mp, { content: song });
+
+            expect(configuredMedia.logPageEvent).to.eq(false);
+            expect(configuredMedia.logMediaEvent).to.eq(true);
+            expect(configuredMedia.baseCustomAttributes).to.eql({});
+            expect(configuredMedia.mediaContentCompleteLimit).to.eq(100);
+            expect(configuredMedia.illegalTransitionPolicy).to.eq(
+                IllegalTransitionPolicy.Warn,
+            );
+        });
+
+        it('should enable the heartbeat', () => {
+            const clock = sinon.useFakeTimers();
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            const configuredMedia = MediaSession.create(mp, {
+                content: song,
+                heartbeat: {
+                    getPlayheadPosition: () => 42,
+                    interval: 1000,
+                    timers: clock,
+                },
+            });
+            configuredMedia.logMediaSessionStart();
+            configuredMedia.logPlay();
+            clock.tick(1000);
+
+            expect(bond.args[2][0].eventType).to.eq(
+                MediaEventType.UpdatePlayheadPosition,
+            );
+
+            clock.restore();
+        });
+    });
+
+    describe('#on', () => {
+        it('should call every subscribed listener', () => {
+            const analytics = sinon.fake();
+            const playerUI = sinon.fake();
+            const legacy = sinon.fake();
+
+            mpMedia.mediaEventListener = legacy;
+            mpMedia.on('*', analytics);
+            mpMedia.on(MediaEventType.Play, playerUI);
+
+            mpMedia.logMediaSessionStart();
+            mpMedia.logPlay();
+
+            expect(legacy.callCount).to.eq(2);
+            expect(analytics.callCount).to.eq(2);
+            expect(playerUI.calledOnce).to.eq(true);
+            expect(playerUI.args[0][0].eventType).to.eq(MediaEventType.Play);
+        });
+
+        it('should return an unsubscribe function', () => {
+            const callback = sinon.fake();
+
+            const unsubscribe = mpMedia.on('*', callback);
+            mpMedia.logMediaSessionStart();
+            unsubscribe();
+            mpMedia.logPlay();
+
+            expect(callback.calledOnce).to.eq(true);
+        });
+
+        it('should isolate listener errors from logBaseEvent', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            const logger = sinon.spy(mp, 'logger');
+            const callback = sinon.fake();
+
+            mpMedia.mediaEventListener = () => {
+                throw new Error('legacy listener');
+            };
+            mpMedia.on('*', () => {
+                throw new Error('analytics shim');
+            });
+            mpMedia.on('*', callback);
+
+            mpMedia.logMediaSessionStart();
+
+            expect(callback.calledOnce).to.eq(true);
+            expect(bond.calledOnce).to.eq(true);
+            expect(logger.args).to.eql([
+                ['Media event listener failed: Error: legacy listener'],
+                ['Media event listener failed: Error: analytics shim'],
+            ]);
+        });
+    });
+
+    describe('#once', () => {
+        it('should only call the listener for the first matching event', () => {
+            const callback = sinon.fake();
+
+            mpMedia.once([MediaEventType.Play, MediaEventType.Pause], callback);
+            mpMedia.logMediaSessionStart();
+            mpMedia.logPlay();
+            mpMedia.logPause();
+
+            expect(callback.calledOnce).to.eq(true);
+            expect(callback.args[0][0].eventType).to.eq(MediaEventType.Play);
+        });
+    });
+
+    describe('#off', () => {
+        it('should remove a listener', () => {
+            const callback = sinon.fake();
+
+            mpMedia.on(MediaEventType.Play, callback);
+            mpMedia.off(MediaEventType.Play, callback);
+            mpMedia.logMediaSessionStart();
+            mpMedia.logPlay();
+
+            expect(callback.called).to.eq(false);
+        });
+    });
+
+    describe('#progressMilestones', () => {
+        it('should not log milestones by default', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            mpMedia.logMediaSessionStart();
+            mpMedia.logPlay();
+            mpMedia.logPlayheadPosition(song.duration);
+
+            expect(bond.callCount).to.eq(3);
+        });
+
+        it('should log each milestone once per session', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            mpMedia.progressMilestones = [25, 50, 75, 95];
+
+            mpMedia.logMediaSessionStart();
+            mpMedia.logPlay();
+            mpMedia.logPlayheadPosition(song.duration * 0.3);
+            mpMedia.logPlayheadPosition(song.duration * 0.8);
+            mpMedia.logSeekStart(0);
+            mpMedia.logSeekEnd(0, { currentPlayheadPosition: 1 });
+            mpMedia.logPlayheadPosition(song.duration * 0.8);
+
+            const milestones = bond.args
+                .map(args => args[0])
+                .filter(event => event.eventType === MediaEventType.Milestone);
+
+            expect(milestones.map(event => event.milestonePercent)).to.eql([
+                25,
+                50,
+                75,
+            ]);
+            expect(bond.args[3][0].eventType).to.eq(MediaEventType.Milestone);
+            expect(bond.args[3][0].getAttributes()).to.include({
+                milestone_percent: 25,
+                playhead_position: song.duration * 0.3,
+            });
+        });
+
+        it('should log a repeated milestone once and in order', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            mpMedia.progressMilestones = [50, 25, 50];
+
+            mpMedia.logMediaSessionStart();
+            mpMedia.logPlayheadPosition(song.duration * 0.6);
+
+            const milestones = bond.args
+                .map(args => args[0])
+                .filter(event => event.eventType === MediaEventType.Milestone);
+            expect(mpMedia.progressMilestones).to.eql([25, 50]);
+            expect(milestones.map(event => event.milestonePercent)).to.eql([
+                25,
+                50,
+            ]);
+        });
+
+        it('should not log milestones after the session ended', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            mpMedia.progressMilestones = [50];
+
+            mpMedia.logMediaSessionStart();
+            mpMedia.logPlay();
+            mpMedia.logMediaSessionEnd({
+                currentPlayheadPosition: song.duration * 0.6,
+            });
+
+            const eventTypes = bond.args.map(args => args[0].eventType);
+            expect(eventTypes).not.to.include(MediaEventType.Milestone);
+            expect(bond.lastCall.args[0].eventType).to.eq(
+                MediaEventType.SessionSummary,
+            );
+        });
+
+        it('should reset milestones for a new session', () => {
+            const bond = sinon.fake();
+            mpMedia.mediaEventListener = bond;
+            mpMedia.progressMilestones = [50];
+
+            mpMedia.logMediaSessionStart();
+            mpMedia.logPlayheadPosition(song.duration * 0.6);
+            mpMedia.logMediaSessionEnd();
+            mpMedia.logMediaSessionStart();
+            mpMedia.logPlayheadPosition(song.duration * 0.7);
+
+            expect(
+                bond.args.filter(
+                    args => args[0].eventType === MediaEventType.Milestone,
+                ),
+            ).to.have.length(2);
+        });
+    });
+
+    describe('#logAdPlayheadPosition', () => {
+        let adContent: AdContent;
+
+        beforeEach(() => {
+            adContent = {
+                id: '4423210',
+                title: 'What?! Nobody rips off my kids but me!',
+                duration: 60000,
+            };
+        });
+
+        it('should log each quartile once', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            mpMedia.logMediaSessionStart();
+            mpMedia.logAdStart(adContent);
+            mpMedia.logAdPlayheadPosition(10000);
+            mpMedia.logAdPlayheadPosition(16000);
+            mpMedia.logAdPlayheadPosition(20000);
+            mpMedia.logAdPlayheadPosition(50000);
+            mpMedia.logAdPlayheadPosition(59000);
+
+            const eventTypes = bond.args.map(args => args[0].eventType);
+            expect(eventTypes).to.eql([
+                MediaEventType.SessionStart,
+                MediaEventType.AdStart,
+                MediaEventType.AdFirstQuartile,
+                MediaEventType.AdMidpoint,
+                MediaEventType.AdThirdQuartile,
+            ]);
+            expect(bond.args[2][0].adContent).to.eq(adContent);
+            expect(bond.args[2][0].getAttributes()).to.include({
+                ad_content_id: '4423210',
+            });
+            expect(adContent.adQuartile).to.eq(3);
+            expect(adContent.adPlayheadPosition).to.eq(59000);
+        });
+
+        it('should do nothing without an ad', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            mpMedia.logAdPlayheadPosition(10000);
+
+            expect(bond.called).to.eq(false);
+        });
+
+        it('should report the highest quartile in the Ad Summary', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            mpMedia.logMediaSessionStart();
+            mpMedia.logAdStart(adContent);
+            mpMedia.logAdPlayheadPosition(35000);
+            mpMedia.logAdSkip();
+
+            const adSummary = bond.args[5][0];
+            expect(adSummary.eventType).to.eq(MediaEventType.AdSummary);
+            expect(
+                adSummary.customAttributes[
+                    ValidMediaAttributeKeys.adContentQuartileKey
+                ],
+            ).to.eq(2);
+        });
+
+        it('should report a completed ad as the fourth quartile', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            mpMedia.logMediaSessionStart();
+            mpMedia.logAdStart(adContent);
+            mpMedia.logAdEnd();
+
+            expect(
+                bond.args[3][0].customAttributes[
+                    ValidMediaAttributeKeys.adContentQuartileKey
+                ],
+            ).to.eq(4);
+        });
+    });
+
+    describe('#logAdBreakSummary', () => {
+        let time: number;
+        let timedMedia: MediaSession;
+        let adBreak: AdBreak;
+
+        const logAd = (id: string) => {
+            timedMedia.logAdStart({
+                id,
+                title: `Ad ${id}`,
+                duration: 15000,
+            });
+            time += 1000;
+        };
+
+        beforeEach(() => {
+            time = 1000;
+            timedMedia = MediaSession.create(mp, {
+                content: song,
+                clock: { now: () => time },
+            });
+            adBreak = {
+                id: '08123410',
+                title: 'mid-roll',
+                duration: 45000,
+            };
+        });
+
+        it('should log an Ad Break Summary after the Ad Break End', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logAdBreakStart(adBreak);
+            logAd('1');
+            timedMedia.logAdEnd();
+            logAd('2');
+            timedMedia.logAdSkip();
+            logAd('3');
+            timedMedia.logAdEnd();
+            time += 500;
+            timedMedia.logAdBreakEnd();
+
+            const adBreakSummary = bond.lastCall.args[0];
+            expect(adBreakSummary.eventType).to.eq(
+                MediaEventType.AdBreakSummary,
+            );
+            expect(adBreakSummary.customAttributes).to.include({
+                media_session_id: timedMedia.sessionId,
+                ad_break_id: '08123410',
+                ad_break_title: 'mid-roll',
+                ad_break_start_time: 1000,
+                ad_break_end_time: 4500,
+                media_ad_break_time_spent: 3500,
+                ad_break_ads_started: 3,
+                ad_break_ads_completed: 2,
+                ad_break_ads_skipped: 1,
+                ad_break_abandoned: false,
+            });
+            expect(bond.args[bond.args.length - 2][0].eventType).to.eq(
+                MediaEventType.AdBreakEnd,
+            );
+            expect(timedMedia.adBreak).to.eq(undefined);
+        });
+
+        it('should flag an Ad Break that ends during an ad as abandoned', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logAdBreakStart(adBreak);
+            logAd('1');
+            timedMedia.logAdBreakEnd();
+
+            expect(bond.lastCall.args[0].customAttributes).to.include({
+                ad_break_ads_started: 1,
+                ad_break_ads_completed: 0,
+                ad_break_abandoned: true,
+            });
+        });
+
+        it('should reset the ad counts for each Ad Break', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logAdBreakStart(adBreak);
+            logAd('1');
+            timedMedia.logAdEnd();
+            timedMedia.logAdBreakEnd();
+            timedMedia.logAdBreakStart({ ...adBreak, id: '08123411' });
+            timedMedia.logAdBreakEnd();
+
+            expect(bond.lastCall.args[0].customAttributes).to.include({
+                ad_break_id: '08123411',
+                ad_break_ads_started: 0,
+                ad_break_ads_completed: 0,
+            });
+        });
+    });
+
+    describe('#serialize', () => {
+        let time: number;
+        let storage: InMemoryStorage;
+
+        const createTimedMedia = () =>
+            MediaSession.create(mp, {
+                content: song,
+                clock: { now: () => time },
+                persistence: { storage },
+            });
+
+        beforeEach(() => {
+            time = 1000;
+            storage = new InMemoryStorage();
+        });
+
+        it('should restore a session with the same id and metrics', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            const timedMedia = createTimedMedia();
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logAdBreakStart({
+                id: '08123410',
+                title: 'pre-roll',
+                duration: 15000,
+            });
+            timedMedia.logAdStart({
+                id: '4423210',
+                title: 'What?! Nobody rips off my kids but me!',
+                duration: 15000,
+            });
+            time += 2000;
+            timedMedia.logAdEnd();
+            timedMedia.logAdBreakEnd();
+            timedMedia.logPlay();
+            time += 3000;
+            timedMedia.logPlayheadPosition(3000);
+
+            const serialized = JSON.parse(
+                JSON.stringify(timedMedia.serialize()),
+            );
+            time += 10000;
+
+            const restoredMedia = MediaSession.restore(mp, serialized, {
+                clock: { now: () => time },
+            })!;
+
+            expect(restoredMedia.sessionId).to.eq(timedMedia.sessionId);
+            expect(restoredMedia.contentId).to.eq(song.contentId);
+            expect(restoredMedia.playbackState).to.eq(PlaybackState.Playing);
+
+            time += 1000;
+            restoredMedia.logPause();
+            restoredMedia.logMediaSessionEnd();
+
+            const sessionSummary = bond.lastCall.args[0];
+            expect(sessionSummary.eventType).to.eq(
+                MediaEventType.SessionSummary,
+            );
+            expect(sessionSummary.customAttributes).to.include({
+                media_session_id: timedMedia.sessionId,
+                media_session_start_time: 1000,
+                media_content_time_spent: 4000,
+                media_total_ad_time_spent: 2000,
+                media_session_ad_total: 1,
+            });
+            expect(
+                sessionSummary.customAttributes[
+                    ValidMediaAttributeKeys.adIDsKey
+                ],
+            ).to.eql(['4423210']);
+        });
+
+        it('should finalize an expired session with a summary', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            const timedMedia = createTimedMedia();
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logPlay();
+            time += 5000;
+            timedMedia.logPause();
+
+            const serialized = timedMedia.serialize();
+            time += 60000;
+            bond.resetHistory();
+
+            const restoredMedia = MediaSession.restore(mp, serialized, {
+                clock: { now: () => time },
+                resumeWindow: 30000,
+            });
+
+            expect(restoredMedia).to.eq(undefined);
+            expect(bond.calledOnce).to.eq(true);
+            expect(bond.args[0][0].eventType).to.eq(
+                MediaEventType.SessionSummary,
+            );
+            expect(bond.args[0][0].customAttributes).to.include({
+                media_session_id: timedMedia.sessionId,
+                media_session_end_time: 6000,
+                media_content_time_spent: 5000,
+            });
+        });
+
+        it('should reject a session saved by an incompatible version', () => {
+            const logger = sinon.spy(mp, 'logger');
+            const timedMedia = createTimedMedia();
+            timedMedia.logMediaSessionStart();
+
+            const serialized = { ...timedMedia.serialize(), version: 99 };
+
+            expect(MediaSession.restore(mp, serialized)).to.eq(undefined);
+            expect(logger.calledOnce).to.eq(true);
+            expect(logger.args[0][0]).to.contain('unsupported version 99');
+        });
+
+        it('should keep an inferred stall', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            const timedMedia = MediaSession.create(mp, {
+                content: song,
+                clock: { now: () => time },
+                stallDetection: { threshold: 1000 },
+            });
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logPlay();
+            timedMedia.logPlayheadPosition(2000);
+            time += 1000;
+            timedMedia.logPlayheadPosition(2000);
+
+            const serialized = timedMedia.serialize();
+            expect(serialized.stallInferred).to.eq(true);
+
+            const restoredMedia = MediaSession.restore(mp, serialized, {
+                clock: { now: () => time },
+                stallDetection: { threshold: 1000 },
+            })!;
+            time += 500;
+            restoredMedia.logPlayheadPosition(2500);
+
+            expect(restoredMedia.playbackState).to.eq(PlaybackState.Playing);
+            expect(bond.lastCall.args[0].eventType).to.eq(
+                MediaEventType.UpdatePlayheadPosition,
+            );
+            expect(bond.getCall(-2).args[0].eventType).to.eq(
+                MediaEventType.BufferEnd,
+            );
+        });
+
+        it('should stay stalled while the restored playhead does not advance', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            const timedMedia = MediaSession.create(mp, {
+                content: song,
+                clock: { now: () => time },
+                stallDetection: { threshold: 1000 },
+            });
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logPlay();
+            timedMedia.logPlayheadPosition(2000);
+            time += 1000;
+            timedMedia.logPlayheadPosition(2000);
+
+            const restoredMedia = MediaSession.restore(
+                mp,
+                timedMedia.serialize(),
+                {
+                    clock: { now: () => time },
+                    stallDetection: { threshold: 1000 },
+                },
+            )!;
+            time += 500;
+            restoredMedia.logPlayheadPosition(2000);
+
+            expect(restoredMedia.playbackState).to.eq(PlaybackState.Buffering);
+            expect(bond.lastCall.args[0].eventType).to.eq(
+                MediaEventType.UpdatePlayheadPosition,
+            );
+        });
+    });
+
+    describe('.restoreFromStorage', () => {
+        let storage: InMemoryStorage;
+
+        beforeEach(() => {
+            storage = new InMemoryStorage();
+        });
+
+        it('should save the session after each event', () => {
+            const persistedMedia = MediaSession.create(mp, {
+                content: song,
+                persistence: { storage, key: 'media' },
+            });
+
+            persistedMedia.logMediaSessionStart();
+            persistedMedia.logPlay();
+
+            const saved = JSON.parse(storage.getItem('media')!);
+            expect(saved.sessionId).to.eq(persistedMedia.sessionId);
+            expect(saved.playbackState).to.eq(PlaybackState.Playing);
+        });
+
+        it('should remove the session once it has ended', () => {
+            const persistedMedia = MediaSession.create(mp, {
+                content: song,
+                persistence: { storage },
+            });
+
+            persistedMedia.logMediaSessionStart();
+            persistedMedia.logMediaSessionEnd();
+
+            expect(storage.getItem('mparticle-media-session')).to.eq(null);
+        });
+
+        it('should restore a saved session', () => {
+            const persistedMedia = MediaSession.create(mp, {
+                content: song,
+                persistence: { storage },
+            });
+            persistedMedia.logMediaSessionStart();
+            persistedMedia.logSegmentStart({
+                title: 'The Gods Made Heavy Metal',
+                index: 0,
+                duration: 5000,
+            });
+
+            const restoredMedia = MediaSession.restoreFromStorage(mp, {
+                persistence: { storage },
+            })!;
+
+            expect(restoredMedia.sessionId).to.eq(persistedMedia.sessionId);
+            expect(restoredMedia.segment!.title).to.eq(
+                'The Gods Made Heavy Metal',
+            );
+        });
+
+        it('should return undefined without a saved session', () => {
+            expect(
+                MediaSession.restoreFromStorage(mp, {
+                    persistence: { storage },
+                }),
+            ).to.eq(undefined);
+        });
+
+        it('should report unreadable sessions', () => {
+            const logger = sinon.spy(mp, 'logger');
+            storage.setItem('mparticle-media-session', '{');
+
+            expect(
+                MediaSession.restoreFromStorage(mp, {
+                    persistence: { storage },
+                }),
+            ).to.eq(undefined);
+            expect(logger.calledOnce).to.eq(true);
+        });
+    });
+
+    describe('#logMediaSessionEnd abandoned units', () => {
+        let time: number;
+        let timedMedia: MediaSession;
+
+        beforeEach(() => {
+            time = 1000;
+            timedMedia = MediaSession.create(mp, {
+                content: song,
+                clock: { now: () => time },
+            });
+        });
+
+        it('should close an open buffer, ad, ad break and segment in order', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logSegmentStart({
+                title: 'The Gods Made Heavy Metal',
+                index: 0,
+                duration: 5000,
+            });
+            timedMedia.logAdBreakStart({
+                id: '08123410',
+                title: 'mid-roll',
+                duration: 15000,
+            });
+            timedMedia.logAdStart({
+                id: '4423210',
+                title: 'What?! Nobody rips off my kids but me!',
+                duration: 15000,
+            });
+            timedMedia.logBufferStart(0, 50, 0);
+            time += 2000;
+            bond.resetHistory();
+
+            timedMedia.logMediaSessionEnd();
+
+            const eventTypes = bond.args.map(args => args[0].eventType);
+            expect(eventTypes).to.eql([
+                MediaEventType.BufferEnd,
+                MediaEventType.AdEnd,
+                MediaEventType.AdSummary,
+                MediaEventType.AdBreakEnd,
+                MediaEventType.AdBreakSummary,
+                MediaEventType.SegmentEnd,
+                MediaEventType.SegmentSummary,
+                MediaEventType.SessionEnd,
+                MediaEventType.SessionSummary,
+            ]);
+
+            expect(bond.args[0][0].bufferDuration).to.eq(2000);
+            [0, 1, 3, 5].forEach(index => {
+                expect(bond.args[index][0].customAttributes).to.include({
+                    media_abandoned: true,
+                });
+            });
+            expect(bond.args[2][0].customAttributes).to.include({
+                ad_abandoned: true,
+                ad_completed: false,
+                ad_skipped: false,
+            });
+            expect(bond.args[4][0].customAttributes).to.include({
+                ad_break_abandoned: true,
+                media_ad_break_time_spent: 2000,
+            });
+            expect(bond.args[6][0].customAttributes).to.include({
+                segment_abandoned: true,
+                media_segment_time_spent: 2000,
+            });
+            expect(bond.args[8][0].customAttributes).to.include({
+                media_total_ad_time_spent: 2000,
+            });
+            expect(timedMedia.adContent).to.eq(undefined);
+            expect(timedMedia.adBreak).to.eq(undefined);
+            expect(timedMedia.segment).to.eq(undefined);
+        });
+
+        it('should not flag completed units as abandoned', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logAdStart({
+                id: '4423210',
+                title: 'What?! Nobody rips off my kids but me!',
+                duration: 15000,
+            });
+            timedMedia.logAdEnd();
+            bond.resetHistory();
+
+            timedMedia.logMediaSessionEnd();
+
+            expect(bond.args.map(args => args[0].eventType)).to.eql([
+                MediaEventType.SessionEnd,
+                MediaEventType.SessionSummary,
+            ]);
+        });
+    });
+
+    describe('#dispose', () => {
+        it('should end an active session and stop the heartbeat', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            const clock = sinon.useFakeTimers();
+
+            mpMedia.enableHeartbeat({
+                getPlayheadPosition: () => 1000,
+                interval: 1000,
+                timers: clock,
+            });
+            mpMedia.logMediaSessionStart();
+            mpMedia.logPlay();
+            bond.resetHistory();
+
+            mpMedia.dispose();
+            clock.tick(5000);
+            clock.restore();
+
+            expect(mpMedia.playbackState).to.eq(PlaybackState.Idle);
+            expect(bond.args.map(args => args[0].eventType)).to.eql([
+                MediaEventType.SessionEnd,
+                MediaEventType.SessionSummary,
+            ]);
+        });
+
+        it('should not log anything for a session that has ended', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            mpMedia.logMediaSessionStart();
+            mpMedia.logMediaSessionEnd();
+            bond.resetHistory();
+
+            mpMedia.dispose();
+
+            expect(bond.called).to.eq(false);
+        });
+    });
+
+    describe('#logError', () => {
+        it('should log an Error event with the error attributes', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            mpMedia.logMediaSessionStart();
+            mpMedia.logError({
+                code: 'MEDIA_ERR_NETWORK',
+                message: 'Segment download failed',
+                domain: 'network',
+            });
+
+            const event: MediaEvent = bond.args[1][0];
+            expect(event.eventType).to.eq(MediaEventType.Error);
+            expect(event.name).to.eq('Media Error');
+            expect(event.mediaSessionID).to.eq(mpMedia.sessionId);
+            expect(event.getEventAttributes()).to.eql({
+                error_code: 'MEDIA_ERR_NETWORK',
+                error_message: 'Segment download failed',
+                error_domain: 'network',
+                error_fatal: false,
+            });
+        });
+
+        it('should accept and keep extra error details', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            mpMedia.logMediaSessionStart();
+            mpMedia.logError({
+                code: 3016,
+                message: 'Decode',
+                fatal: true,
+                segmentUrl: 'https://cdn.example.com/seg-12.ts',
+            });
+
+            const event: MediaEvent = bond.args[1][0];
+            expect(event.error!.segmentUrl).to.eq(
+                'https://cdn.example.com/seg-12.ts',
+            );
+            expect(event.getEventAttributes()).to.include({
+                error_fatal: true,
+            });
+        });
+
+        it('should count errors in the session summary', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            mpMedia.logMediaSessionStart();
+            mpMedia.logError({ code: 1, message: 'Dropped frames' });
+            mpMedia.logError({ code: 3016, message: 'Decode', fatal: true });
+            mpMedia.logMediaSessionEnd();
+
+            expect(mpMedia.playbackState).to.eq(PlaybackState.Idle);
+            expect(bond.lastCall.args[0].customAttributes).to.include({
+                media_session_error_count: 2,
+                media_session_fatal_error_count: 1,
+            });
+        });
+
+        it('should end the session on a fatal error when enabled', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            const erroringMedia = MediaSession.create(mp, {
+                content: song,
+                endSessionOnFatalError: true,
+            });
+
+            erroringMedia.logMediaSessionStart();
+            erroringMedia.logPlay();
+            erroringMedia.logError({ code: 1, message: 'Recoverable' });
+            expect(erroringMedia.playbackState).to.eq(PlaybackState.Playing);
+
+            erroringMedia.logError({
+                code: 3016,
+                message: 'Decode',
+                fatal: true,
+            });
+
+            expect(erroringMedia.playbackState).to.eq(PlaybackState.Idle);
+            expect(bond.args.slice(-3).map(args => args[0].eventType)).to.eql([
+                MediaEventType.Error,
+                MediaEventType.SessionEnd,
+                MediaEventType.SessionSummary,
+            ]);
+        });
+    });
+
+    describe('#addMiddleware', () => {
+        it('should let middlewares enrich the logged events', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            const pageMedia = MediaSession.create(mp, {
+                content: song,
+                logPageEvent: true,
+            });
+
+            pageMedia.addMiddleware((context, next) => {
+                context.event.customAttributes = {
+                    ...context.event.customAttributes,
+                    player_version: '2.1.0',
+                };
+                next();
+            });
+            pageMedia.logMediaSessionStart({
+                customAttributes: { player: 'html5' },
+            });
+
+            const event: MediaEvent = bond.args[0][0];
+            expect(event.toEventAPIObject().EventAttributes).to.eql({
+                player: 'html5',
+                player_version: '2.1.0',
+            });
+            expect(bond.args[1][0].data).to.include({
+                player: 'html5',
+                player_version: '2.1.0',
+            });
+        });
+
+        it('should keep a page event set by a middleware', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            const pageMedia = MediaSession.create(mp, {
+                content: song,
+                logPageEvent: true,
+            });
+
+            pageMedia.addMiddleware((context, next) => {
+                context.pageEvent = pageMedia.createPageEvent('Custom', {});
+                next();
+            });
+            pageMedia.logMediaSessionStart();
+
+            expect(bond.args[1][0].name).to.eq('Custom');
+        });
+
+        it('should not send events dropped by a middleware', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            const listener = sinon.fake();
+            mpMedia.mediaEventListener = listener;
+
+            const removeMiddleware = mpMedia.addMiddleware((context, next) => {
+                if (context.event.eventType !== MediaEventType.Play) {
+                    next();
+                }
+            });
+            mpMedia.logMediaSessionStart();
+            mpMedia.logPlay();
+
+            removeMiddleware();
+            mpMedia.logPause();
+
+            expect(bond.args.map(args => args[0].eventType)).to.eql([
+                MediaEventType.SessionStart,
+                MediaEventType.Pause,
+            ]);
+            expect(listener.callCount).to.eq(3);
+        });
+
+        it('should report middleware errors via the logger', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            const logger = sinon.spy(mp, 'logger');
+            const middleware = () => {
+                throw new Error('Consent unavailable');
+            };
+
+            mpMedia.addMiddleware(middleware);
+            mpMedia.logMediaSessionStart();
+            mpMedia.removeMiddleware(middleware);
+            mpMedia.logPlay();
+
+            expect(
+                logger.calledOnceWith(
+                    'Media middleware failed: Error: Consent unavailable',
+                ),
+            ).to.eq(true);
+            expect(bond.calledOnce).to.eq(true);
+            expect(bond.args[0][0].eventType).to.eq(MediaEventType.Play);
+        });
+    });
+
+    describe('#enableBatching', () => {
+        let clock: sinon.SinonFakeTimers;
+
+        beforeEach(() => {
+            clock = sinon.useFakeTimers();
+        });
+
+        afterEach(() => {
+            clock.restore();
+        });
+
+        it('should coalesce playhead updates until a state change', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            const listener = sinon.fake();
+            const batchedMedia = MediaSession.create(mp, {
+                content: song,
+                batching: { window: 5000, timers: clock },
+            });
+            batchedMedia.mediaEventListener = listener;
+
+            batchedMedia.logMediaSessionStart();
+            batchedMedia.logPlay();
+            batchedMedia.logPlayheadPosition(1000);
+            batchedMedia.logPlayheadPosition(2000);
+            batchedMedia.logPlayheadPosition(3000);
+            expect(bond.callCount).to.eq(2);
+
+            batchedMedia.logPause();
+
+            expect(listener.callCount).to.eq(6);
+            expect(bond.args.map(args => args[0].eventType)).to.eql([
+                MediaEventType.SessionStart,
+                MediaEventType.Play,
+                MediaEventType.UpdatePlayheadPosition,
+                MediaEventType.Pause,
+            ]);
+            expect(bond.args[2][0].playheadPosition).to.eq(3000);
+        });
+
+        it('should wait for events in async middleware on flush', async () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            mpMedia.addMiddleware(async (context, next) => {
+                await Promise.resolve();
+                next(context);
+            });
+
+            mpMedia.enableBatching({ window: 100000, timers: clock });
+            mpMedia.logPlayheadPosition(1000);
+            expect(bond.called).to.eq(false);
+
+            await mpMedia.flush();
+
+            expect(bond.calledOnce).to.eq(true);
+            expect(bond.args[0][0].eventType).to.eq(
+                MediaEventType.UpdatePlayheadPosition,
+            );
+        });
+
+        it('should send held events on flush', async () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            mpMedia.enableBatching({ timers: clock });
+            mpMedia.logQoS({ fps: 30 });
+            mpMedia.logQoS({ droppedFrames: 2 });
+            expect(bond.called).to.eq(false);
+
+            await mpMedia.flush();
+
+            expect(bond.calledOnce).to.eq(true);
+            expect(bond.args[0][0].qos).to.eql({
+                startupTime: 0,
+                bitRate: 0,
+                fps: 30,
+                droppedFrames: 2,
+            });
+        });
+
+        it('should send held events when batching is disabled', async () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            mpMedia.enableBatching({ timers: clock });
+            mpMedia.logPlayheadPosition(1000);
+            await mpMedia.disableBatching();
+            mpMedia.logPlayheadPosition(2000);
+
+            expect(bond.callCount).to.eq(2);
+            expect(clock.countTimers()).to.eq(0);
+        });
+    });
+
+    describe('rebuffer metrics', () => {
+        it('should report startup buffering and rebuffering in the session summary', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            let time = 1000;
+            const timedMedia = MediaSession.create(mp, {
+                content: song,
+                clock: { now: () => time },
+            });
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logBufferStart(0, 0, 0);
+            time += 1500;
+            timedMedia.logBufferEnd(1500, 10, 0);
+            timedMedia.logPlay();
+            time += 10000;
+            timedMedia.logBufferStart(0, 20, 10000);
+            time += 500;
+            timedMedia.logBufferEnd(500, 30, 10000);
+            time += 5000;
+            timedMedia.logBufferStart(0, 40, 15000);
+            time += 2000;
+            timedMedia.logBufferEnd(2000, 50, 15000);
+            time += 2500;
+            timedMedia.logMediaSessionEnd();
+
+            expect(bond.lastCall.args[0].customAttributes).to.include({
+                media_session_buffer_count: 3,
+                media_session_startup_buffer_count: 1,
+                media_session_startup_buffer_time: 1500,
+                media_session_rebuffer_count: 2,
+                media_session_rebuffer_time: 2500,
+                media_session_longest_rebuffer: 2000,
+                media_session_rebuffer_ratio: 0.125,
+            });
+        });
+
+        it('should not count buffering during an ad as rebuffering', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            let time = 1000;
+            const timedMedia = MediaSession.create(mp, {
+                content: song,
+                clock: { now: () => time },
+            });
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logPlay();
+            time += 10000;
+            timedMedia.logAdBreakStart({
+                id: '08123410',
+                title: 'mid-roll',
+                duration: 15000,
+            });
+            timedMedia.logAdStart({
+                id: '4423210',
+                title: 'What?! Nobody rips off my kids but me!',
+                duration: 15000,
+            });
+            timedMedia.logBufferStart(0, 0, 0);
+            time += 3000;
+            timedMedia.logBufferEnd(3000, 100, 0);
+            timedMedia.logAdEnd();
+            timedMedia.logAdBreakEnd();
+            timedMedia.logMediaSessionEnd();
+
+            expect(bond.lastCall.args[0].customAttributes).to.include({
+                media_session_buffer_count: 0,
+                media_session_rebuffer_count: 0,
+                media_session_rebuffer_time: 0,
+                media_session_longest_rebuffer: 0,
+            });
+        });
+
+        it('should include a stall that is still open when the session ends', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            let time = 1000;
+            const timedMedia = MediaSession.create(mp, {
+                content: song,
+                clock: { now: () => time },
+            });
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logPlay();
+            time += 4000;
+            timedMedia.logBufferStart(0, 20, 4000);
+            time += 3000;
+            timedMedia.logMediaSessionEnd();
+
+            expect(bond.lastCall.args[0].customAttributes).to.include({
+                media_session_buffer_count: 1,
+                media_session_rebuffer_count: 1,
+                media_session_rebuffer_time: 3000,
+                media_session_longest_rebuffer: 3000,
+            });
+        });
+    });
+
+    describe('#measureStartupTime', () => {
+        let time: number;
+        let timedMedia: MediaSession;
+
+        beforeEach(() => {
+            time = 1000;
+            timedMedia = MediaSession.create(mp, {
+                content: song,
+                clock: { now: () => time },
+                measureStartupTime: true,
+            });
+        });
+
+        it('should log the time from session start to the first play', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            timedMedia.logMediaSessionStart();
+            time += 1200;
+            timedMedia.logPlay();
+            timedMedia.logPause();
+            timedMedia.logPlay();
+
+            expect(bond.args.map(args => args[0].eventType)).to.eql([
+                MediaEventType.SessionStart,
+                MediaEventType.Play,
+                MediaEventType.UpdateQoS,
+                MediaEventType.Pause,
+                MediaEventType.Play,
+            ]);
+            expect(bond.args[2][0].qos.startupTime).to.eq(1200);
+            expect(timedMedia.getQoSAttributes()).to.include({
+                qos_startup_time: 1200,
+            });
+        });
+
+        it('should measure from markPlayRequested to the first playhead advance', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            timedMedia.logMediaSessionStart();
+            time += 5000;
+            timedMedia.markPlayRequested();
+            time += 800;
+            timedMedia.logPlayheadPosition(0);
+            expect(bond.lastCall.args[0].eventType).to.eq(
+                MediaEventType.UpdatePlayheadPosition,
+            );
+
+            time += 200;
+            timedMedia.logPlayheadPosition(250);
+
+            expect(bond.lastCall.args[0].eventType).to.eq(
+                MediaEventType.UpdateQoS,
+            );
+            expect(bond.lastCall.args[0].qos.startupTime).to.eq(1000);
+        });
+
+        it('should keep a startup time logged by the integrator', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logQoS({ startupTime: 300 });
+            time += 1200;
+            timedMedia.logPlay();
+
+            expect(bond.lastCall.args[0].eventType).to.eq(MediaEventType.Play);
+            expect(timedMedia.getQoSAttributes()).to.include({
+                qos_startup_time: 300,
+            });
+        });
+    });
+
+    describe('exit before start', () => {
+        it('should be reported when the session ends without playing', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            mpMedia.logMediaSessionStart();
+            mpMedia.logMediaSessionEnd();
+
+            expect(bond.lastCall.args[0].customAttributes).to.include({
+                media_session_exit_before_start: true,
+            });
+        });
+
+        it('should not be reported once content has played', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            mpMedia.logMediaSessionStart();
+            mpMedia.logPlay();
+            mpMedia.logMediaSessionEnd();
+
+            expect(bond.lastCall.args[0].customAttributes).to.include({
+                media_session_exit_before_start: false,
+            });
+        });
+    });
+
+    describe('#logRenditionChange', () => {
+        it('should log a Rendition Change event with the switch direction', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            mpMedia.logMediaSessionStart();
+            mpMedia.logRenditionChange({
+                bitrate: 3000000,
+                width: 1280,
+                height: 720,
+                codec: 'avc1.4d401f',
+            });
+            mpMedia.logRenditionChange({ bitrate: 6000000, height: 1080 });
+            mpMedia.logRenditionChange({ bitrate: 1500000, height: 480 });
+            mpMedia.logRenditionChange({ bitrate: 1500000, height: 480 });
+
+            const events: MediaEvent[] = bond.args
+                .slice(1)
+                .map(args => args[0]);
+            expect(events[0].name).to.eq('Rendition Change');
+            expect(events[0].getEventAttributes()).to.eql({
+                rendition_bitrate: 3000000,
+                rendition_width: 1280,
+                rendition_height: 720,
+                rendition_codec: 'avc1.4d401f',
+                rendition_switch_direction: 'Initial',
+            });
+            expect(
+                events.map(
+                    event =>
+                        event.getEventAttributes().rendition_switch_direction,
+                ),
+            ).to.eql(['Initial', 'Up', 'Down', 'Lateral']);
+            expect(mpMedia.getQoSAttributes()).to.include({
+                qos_bitrate: 1500000,
+            });
+        });
+
+        it('should report time per tier and the average bitrate in the session summary', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            let time = 1000;
+            const timedMedia = MediaSession.create(mp, {
+                content: song,
+                clock: { now: () => time },
+            });
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logRenditionChange({ bitrate: 3000000, height: 720 });
+            timedMedia.logPlay();
+            time += 6000;
+            timedMedia.logRenditionChange({ bitrate: 6000000, height: 1080 });
+            time += 2000;
+            timedMedia.logPause();
+            time += 10000;
+            timedMedia.logRenditionChange({ bitrate: 3000000, height: 720 });
+            timedMedia.logPlay();
+            time += 2000;
+            timedMedia.logMediaSessionEnd();
+
+            const summary = bond.lastCall.args[0].customAttributes;
+            expect(summary).to.include({
+                media_session_average_bitrate: 3600000,
+                media_session_rendition_switches: 2,
+                media_session_rendition_upshifts: 1,
+                media_session_rendition_downshifts: 1,
+                media_session_rendition_time_720p: 8000,
+                media_session_rendition_time_1080p: 2000,
+            });
+            expect(summary).not.to.have.property(
+                'media_session_rendition_time',
+            );
+        });
+    });
+
+    describe('seek analytics', () => {
+        let time: number;
+        let timedMedia: MediaSession;
+
+        beforeEach(() => {
+            time = 1000;
+            timedMedia = MediaSession.create(mp, {
+                content: song,
+                clock: { now: () => time },
+            });
+        });
+
+        it('should add distance, direction and duration to Seek End', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logPlay();
+            timedMedia.logPlayheadPosition(30000);
+            timedMedia.logSeekStart(30000);
+            time += 400;
+            timedMedia.logSeekEnd(10000);
+
+            const seekEnd: MediaEvent = bond.lastCall.args[0];
+            expect(seekEnd.getEventAttributes()).to.eql({
+                seek_position: 10000,
+                seek_distance: 20000,
+                seek_direction: 'Backward',
+                seek_duration: 400,
+            });
+        });
+
+        it('should report seeks in the session summary', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logPlay();
+            timedMedia.logSeekStart(0, { currentPlayheadPosition: 5000 });
+            time += 300;
+            timedMedia.logSeekEnd(60000);
+            timedMedia.logSeekStart(60000, { currentPlayheadPosition: 60000 });
+            time += 200;
+            timedMedia.logSeekEnd(20000);
+            timedMedia.logMediaSessionEnd();
+
+            expect(bond.lastCall.args[0].customAttributes).to.include({
+                media_session_seek_count: 2,
+                media_session_seek_forward_count: 1,
+                media_session_seek_backward_count: 1,
+                media_session_seek_time: 500,
+            });
+        });
+    });
+
+    describe('#enableSeekDetection', () => {
+        let time: number;
+        let timedMedia: MediaSession;
+
+        beforeEach(() => {
+            time = 1000;
+            timedMedia = MediaSession.create(mp, {
+                content: song,
+                clock: { now: () => time },
+                seekDetection: { tolerance: 1000 },
+            });
+        });
+
+        it('should infer a seek when the playhead jumps', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logPlay();
+            timedMedia.logPlayheadPosition(0);
+            time += 5000;
+            timedMedia.logPlayheadPosition(5000);
+            time += 5000;
+            timedMedia.logPlayheadPosition(60000);
+
+            const events: MediaEvent[] = bond.args
+                .slice(4)
+                .map(args => args[0]);
+            expect(events.map(event => event.eventType)).to.eql([
+                MediaEventType.SeekStart,
+                MediaEventType.SeekEnd,
+                MediaEventType.UpdatePlayheadPosition,
+            ]);
+            expect(events[1].customAttributes).to.eql({
+                media_inferred: true,
+            });
+            expect(events[1].getEventAttributes()).to.include({
+                seek_distance: 50000,
+                seek_direction: 'Forward',
+            });
+            expect(timedMedia.playbackState).to.eq(PlaybackState.Playing);
+        });
+
+        it('should not infer seeks across pauses and buffering', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logPlay();
+            timedMedia.logPlayheadPosition(0);
+            time += 4000;
+            timedMedia.logPause();
+            time += 60000;
+            timedMedia.logPlayheadPosition(4000);
+            timedMedia.logPlay();
+            time += 3000;
+            timedMedia.logBufferStart(0, 0, 7000);
+            time += 10000;
+            timedMedia.logBufferEnd(10000, 100, 7000);
+            time += 2000;
+            timedMedia.logPlayheadPosition(9000);
+
+            const eventTypes = bond.args.map(args => args[0].eventType);
+            expect(eventTypes).not.to.include(MediaEventType.SeekStart);
+        });
+
+        it('should not infer seeks when disabled', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            timedMedia.disableSeekDetection();
+            timedMedia.logMediaSessionStart();
+            timedMedia.logPlay();
+            timedMedia.logPlayheadPosition(0);
+            timedMedia.logPlayheadPosition(60000);
+
+            const eventTypes = bond.args.map(args => args[0].eventType);
+            expect(eventTypes).not.to.include(MediaEventType.SeekStart);
+        });
+    });
+
+    describe('#enableStallDetection', () => {
+        let time: number;
+        let timedMedia: MediaSession;
+
+        beforeEach(() => {
+            time = 1000;
+            timedMedia = MediaSession.create(mp, {
+                content: song,
+                clock: { now: () => time },
+                stallDetection: { threshold: 1000 },
+            });
+        });
+
+        it('should infer buffering while the playhead does not advance', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logPlay();
+            timedMedia.logPlayheadPosition(2000);
+            time += 500;
+            timedMedia.logPlayheadPosition(2000);
+            expect(timedMedia.playbackState).to.eq(PlaybackState.Playing);
+
+            time += 500;
+            timedMedia.logPlayheadPosition(2000);
+            expect(timedMedia.playbackState).to.eq(PlaybackState.Buffering);
+
+            time += 2000;
+            timedMedia.logPlayheadPosition(2000);
+            time += 250;
+            timedMedia.logPlayheadPosition(2250);
+            expect(timedMedia.playbackState).to.eq(PlaybackState.Playing);
+
+            const events: MediaEvent[] = bond.args.map(args => args[0]);
+            const bufferStart = events.filter(
+                event => event.eventType === MediaEventType.BufferStart,
+            );
+            const bufferEnd = events.filter(
+                event => event.eventType === MediaEventType.BufferEnd,
+            );
+            expect(bufferStart.length).to.eq(1);
+            expect(bufferStart[0].bufferPosition).to.eq(2000);
+            expect(bufferStart[0].customAttributes).to.eql({
+                media_inferred: true,
+            });
+            expect(bufferEnd.length).to.eq(1);
+            expect(bufferEnd[0].bufferDuration).to.eq(3250);
+            expect(bufferEnd[0].bufferPosition).to.eq(2250);
+            expect(bufferEnd[0].customAttributes).to.eql({
+                media_inferred: true,
+            });
+        });
+
+        it('should not infer buffering while paused', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logPlay();
+            timedMedia.logPlayheadPosition(2000);
+            timedMedia.logPause();
+            time += 5000;
+            timedMedia.logPlayheadPosition(2000);
+            timedMedia.logPlay();
+            time += 500;
+            timedMedia.logPlayheadPosition(2000);
+
+            const eventTypes = bond.args.map(args => args[0].eventType);
+            expect(eventTypes).not.to.include(MediaEventType.BufferStart);
+        });
+
+        it('should keep the heartbeat running during an inferred stall', () => {
+            const clock = sinon.useFakeTimers();
+            let playheadPosition = 0;
+            const stalledMedia = MediaSession.create(mp, {
+                content: song,
+                clock: { now: () => clock.now },
+                stallDetection: { threshold: 1000 },
+                heartbeat: {
+                    getPlayheadPosition: () => playheadPosition,
+                    interval: 500,
+                    timers: clock,
+                },
+            });
+
+            stalledMedia.logMediaSessionStart();
+            stalledMedia.logPlay();
+            clock.tick(1500);
+            expect(stalledMedia.playbackState).to.eq(PlaybackState.Buffering);
+
+            playheadPosition = 500;
+            clock.tick(500);
+            clock.restore();
+
+            expect(stalledMedia.playbackState).to.eq(PlaybackState.Playing);
+        });
+    });
+
+    describe('watched ranges', () => {
+        let time: number;
+        let timedMedia: MediaSession;
+
+        beforeEach(() => {
+            time = 1000;
+            timedMedia = MediaSession.create(mp, {
+                content: song,
+                clock: { now: () => time },
+            });
+        });
+
+        it('should count a rewatched range once', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logPlay();
+            timedMedia.logPlayheadPosition(0);
+            time += 10000;
+            timedMedia.logPlayheadPosition(10000);
+            timedMedia.logSeekStart(0);
+            timedMedia.logSeekEnd(0);
+            time += 10000;
+            timedMedia.logPlayheadPosition(10000);
+            timedMedia.logMediaSessionEnd();
+
+            const summary = bond.lastCall.args[0];
+            expect(summary.customAttributes).to.include({
+                media_content_time_spent: 20000,
+                media_session_unique_time_watched: 10000,
+                media_session_coverage_bitmap: 'ff00000000000000000000000',
+            });
+            expect(
+                summary.customAttributes.media_session_content_coverage,
+            ).to.be.closeTo(8.33, 0.01);
+        });
+
+        it('should not count a playhead jump as watched', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logPlay();
+            timedMedia.logPlayheadPosition(0);
+            time += 1000;
+            timedMedia.logPlayheadPosition(60000);
+            time += 1000;
+            timedMedia.logPlayheadPosition(61000);
+            timedMedia.logMediaSessionEnd();
+
+            expect(bond.lastCall.args[0].customAttributes).to.include({
+                media_session_unique_time_watched: 1000,
+            });
+        });
+
+        it('should keep the watched ranges when serialized', () => {
+            timedMedia.logMediaSessionStart();
+            timedMedia.logPlay();
+            timedMedia.logPlayheadPosition(0);
+            time += 5000;
+            timedMedia.logPlayheadPosition(5000);
+
+            expect(timedMedia.serialize().watchedRanges).to.eql([[0, 5000]]);
+        });
+    });
+
+    describe('pause metrics', () => {
+        let time: number;
+        let timedMedia: MediaSession;
+
+        beforeEach(() => {
+            time = 1000;
+            timedMedia = MediaSession.create(mp, {
+                content: song,
+                clock: { now: () => time },
+            });
+        });
+
+        it('should count a pause while buffering or seeking', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            timedMedia.illegalTransitionPolicy = IllegalTransitionPolicy.Throw;
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logPlay();
+            time += 1000;
+            timedMedia.logBufferStart(0, 0, 1000);
+            timedMedia.logPause();
+            time += 2000;
+            timedMedia.logBufferEnd(2000, 100, 1000);
+            expect(timedMedia.playbackState).to.eq(PlaybackState.Paused);
+
+            timedMedia.logSeekStart(1000);
+            timedMedia.logPause();
+            timedMedia.logSeekEnd(5000);
+            expect(timedMedia.playbackState).to.eq(PlaybackState.Paused);
+            time += 1000;
+            timedMedia.logPlay();
+            time += 1000;
+            timedMedia.logMediaSessionEnd();
+
+            expect(bond.lastCall.args[0].customAttributes).to.include({
+                media_session_pause_count: 1,
+                media_session_pause_time: 3000,
+                media_session_resume_count: 1,
+                media_content_time_spent: 2000,
+            });
+        });
+
+        it('should report pauses and resumes in the Session Summary', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logPlay();
+            time += 1000;
+            timedMedia.logPause();
+            time += 3000;
+            timedMedia.logPause();
+            time += 2000;
+            timedMedia.logPlay();
+            time += 1000;
+            timedMedia.logPause();
+            time += 1500;
+            timedMedia.logMediaSessionEnd();
+
+            expect(bond.lastCall.args[0].customAttributes).to.include({
+                media_session_pause_count: 2,
+                media_session_pause_time: 6500,
+                media_session_longest_pause: 5000,
+                media_session_resume_count: 1,
+            });
+        });
+
+        it('should not count ad breaks during a pause', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logPlay();
+            timedMedia.logPause();
+            time += 2000;
+            timedMedia.logAdBreakStart({
+                id: '08123410',
+                title: 'mid-roll',
+                duration: 30000,
+            });
+            time += 30000;
+            timedMedia.logAdBreakEnd();
+            time += 1000;
+            timedMedia.logPlay();
+            timedMedia.logMediaSessionEnd();
+
+            expect(bond.lastCall.args[0].customAttributes).to.include({
+                media_session_pause_count: 1,
+                media_session_pause_time: 3000,
+                media_session_longest_pause: 3000,
+            });
+        });
+
+        it('should end the pause when the content ends', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logPlay();
+            timedMedia.logPause();
+            time += 2000;
+            timedMedia.logMediaContentEnd();
+            time += 5000;
+            timedMedia.logMediaSessionEnd();
+
+            expect(bond.lastCall.args[0].customAttributes).to.include({
+                media_session_pause_count: 1,
+                media_session_pause_time: 2000,
+                media_session_resume_count: 0,
+            });
+        });
+    });
+
+    describe('#enableLongPauseDetection', () => {
+        let clock: sinon.SinonFakeTimers;
+        let timedMedia: MediaSession;
+
+        beforeEach(() => {
+            clock = sinon.useFakeTimers();
+            timedMedia = MediaSession.create(mp, {
+                content: song,
+                clock: { now: () => clock.now },
+                longPauseDetection: { threshold: 30000, timers: clock },
+            });
+        });
+
+        afterEach(() => {
+            clock.restore();
+        });
+
+        it('should log a Long Pause once the threshold is reached', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logPlay();
+            timedMedia.logPause();
+            clock.tick(29999);
+            expect(bond.lastCall.args[0].eventType).to.eq(MediaEventType.Pause);
+
+            clock.tick(1);
+            const longPause: MediaEvent = bond.lastCall.args[0];
+            expect(longPause.eventType).to.eq(MediaEventType.LongPause);
+            expect(longPause.getEventAttributes()).to.eql({
+                pause_duration: 30000,
+            });
+
+            clock.tick(60000);
+            const longPauses = bond.args.filter(
+                args => args[0].eventType === MediaEventType.LongPause,
+            );
+            expect(longPauses.length).to.eq(1);
+        });
+
+        it('should stop the Long Pause timer during an ad break', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logPlay();
+            timedMedia.logPause();
+            clock.tick(20000);
+            timedMedia.logAdBreakStart({
+                id: '08123410',
+                title: 'mid-roll',
+                duration: 60000,
+            });
+            clock.tick(60000);
+            timedMedia.logAdBreakEnd();
+
+            let eventTypes = bond.args.map(args => args[0].eventType);
+            expect(eventTypes).not.to.include(MediaEventType.LongPause);
+
+            clock.tick(10000);
+            const longPause: MediaEvent = bond.lastCall.args[0];
+            expect(longPause.eventType).to.eq(MediaEventType.LongPause);
+            expect(longPause.pauseDuration).to.eq(30000);
+
+            eventTypes = bond.args.map(args => args[0].eventType);
+            expect(
+                eventTypes.filter(
+                    eventType => eventType === MediaEventType.LongPause,
+                ).length,
+            ).to.eq(1);
+        });
+
+        it('should not log a Long Pause for a short pause', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logPlay();
+            timedMedia.logPause();
+            clock.tick(10000);
+            timedMedia.logPlay();
+            clock.tick(60000);
+
+            const eventTypes = bond.args.map(args => args[0].eventType);
+            expect(eventTypes).not.to.include(MediaEventType.LongPause);
+        });
+    });
+
+    describe('#logPlaybackRateChange', () => {
+        let time: number;
+        let timedMedia: MediaSession;
+
+        beforeEach(() => {
+            time = 1000;
+            timedMedia = MediaSession.create(mp, {
+                content: song,
+                clock: { now: () => time },
+            });
+        });
+
+        it('should log a Playback Rate Change and attach the rate to later events', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            timedMedia.logMediaSessionStart();
+            expect(
+                bond.lastCall.args[0].getSessionAttributes(),
+            ).not.to.have.property('playback_rate');
+
+            timedMedia.logPlaybackRateChange(1.5);
+            const rateChange: MediaEvent = bond.lastCall.args[0];
+            expect(rateChange.eventType).to.eq(
+                MediaEventType.PlaybackRateChange,
+            );
+            expect(rateChange.getSessionAttributes()).to.include({
+                playback_rate: 1.5,
+            });
+
+            timedMedia.logPlay();
+            expect(bond.lastCall.args[0].getSessionAttributes()).to.include({
+                playback_rate: 1.5,
+            });
+        });
+
+        it('should report the content time consumed and the time per rate', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            timedMedia.logMediaSessionStart();
+            timedMedia.logPlay();
+            time += 10000;
+            timedMedia.logPlaybackRateChange(1.5);
+            time += 10000;
+            timedMedia.logPlaybackRateChange(2.05);
+            time += 5000;
+            timedMedia.logPause();
+            timedMedia.logMediaSessionEnd();
+
+            const summary = bond.lastCall.args[0];
+            expect(summary.customAttributes).to.include({
+                media_content_time_spent: 25000,
+                media_session_content_time_consumed: 35250,
+                media_session_playback_rate_time_1: 10000,
+                'media_session_playback_rate_time_1.5': 10000,
+                media_session_playback_rate_time_2: 5000,
+            });
+            expect(summary.customAttributes).not.to.have.property(
+                'media_session_playback_rate_time',
+            );
+        });
+
+        it('should expect the playhead to advance at the playback rate', () => {
+            const clock = sinon.useFakeTimers();
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            const fastMedia = MediaSession.create(mp, {
+                content: song,
+                clock: { now: () => clock.now },
+                seekDetection: {},
+                heartbeat: {
+                    getPlayheadPosition: () => clock.now * 2,
+                    interval: 10000,
+                    timers: clock,
+                },
+            });
+
+            fastMedia.logMediaSessionStart();
+            fastMedia.logPlaybackRateChange(2);
+            fastMedia.logPlay();
+            fastMedia.logPlayheadPosition(0);
+            clock.tick(60000);
+            fastMedia.logPause();
+            fastMedia.logMediaSessionEnd();
+            clock.restore();
+
+            const eventTypes = bond.args.map(args => args[0].eventType);
+            expect(eventTypes).not.to.include(MediaEventType.SeekStart);
+            expect(eventTypes).not.to.include(MediaEventType.SeekEnd);
+            expect(bond.lastCall.args[0].customAttributes).to.include({
+                media_content_time_spent: 60000,
+                media_session_content_time_consumed: 120000,
+                media_session_unique_time_watched: 120000,
+                media_session_content_coverage: 100,
+            });
+        });
+    });
+
+    describe('#updateLiveWindow', () => {
+        let time: number;
+        let liveMedia: MediaSession;
+
+        beforeEach(() => {
+            time = 1000;
+            liveMedia = MediaSession.create(mp, {
+                content: {
+                    ...song,
+                    duration: 0,
+                    streamType: MediaStreamType.LiveStream,
+                },
+                clock: { now: () => time },
+                liveEdgeTolerance: 5000,
+            });
+        });
+
+        it('should attach the live latency to events', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            liveMedia.logMediaSessionStart();
+            liveMedia.updateLiveWindow({ start: 0, end: 600000 });
+            liveMedia.logPlayheadPosition(598000);
+
+            expect(liveMedia.getLiveLatency()).to.eq(2000);
+            expect(bond.lastCall.args[0].getSessionAttributes()).to.include({
+                live_latency: 2000,
+                is_at_live_edge: true,
+            });
+        });
+
+        it('should move the live edge forward in real time', () => {
+            liveMedia.logMediaSessionStart();
+            liveMedia.logPlay();
+            liveMedia.updateLiveWindow({ start: 0, end: 600000 });
+            liveMedia.logPlayheadPosition(598000);
+            liveMedia.logPause();
+            time += 10000;
+
+            expect(liveMedia.getLiveLatency()).to.eq(12000);
+            expect(liveMedia.serialize().liveWindow).to.eql({
+                start: 10000,
+                end: 610000,
+            });
+        });
+
+        it('should extrapolate the playhead between playhead updates', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            liveMedia.logMediaSessionStart();
+            liveMedia.logPlay();
+            liveMedia.updateLiveWindow({ start: 0, end: 600000 });
+            liveMedia.logPlayheadPosition(598000);
+            time += 10000;
+            liveMedia.logQoS({ fps: 30 });
+
+            expect(liveMedia.getLiveLatency()).to.eq(2000);
+            expect(bond.lastCall.args[0].getSessionAttributes()).to.include({
+                live_latency: 2000,
+                is_at_live_edge: true,
+            });
+        });
+
+        it('should log when the viewer falls behind and returns to live', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            liveMedia.logMediaSessionStart();
+            liveMedia.updateLiveWindow({ start: 0, end: 600000 });
+            liveMedia.logPlayheadPosition(598000);
+            liveMedia.logPlayheadPosition(500000);
+
+            const fellBehind: MediaEvent = bond.lastCall.args[0];
+            expect(fellBehind.eventType).to.eq(MediaEventType.FellBehindLive);
+            expect(fellBehind.getSessionAttributes()).to.include({
+                live_latency: 100000,
+                is_at_live_edge: false,
+            });
+
+            liveMedia.logPlayheadPosition(501000);
+            expect(bond.lastCall.args[0].eventType).to.eq(
+                MediaEventType.UpdatePlayheadPosition,
+            );
+
+            liveMedia.updateLiveWindow({ start: 0, end: 504000 });
+            expect(bond.lastCall.args[0].eventType).to.eq(
+                MediaEventType.ReturnedToLive,
+            );
+        });
+
+        it('should not log milestones or completion for a live stream', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            liveMedia.duration = 120000;
+            liveMedia.progressMilestones = [25, 50];
+            liveMedia.mediaContentCompleteLimit = 50;
+
+            liveMedia.logMediaSessionStart();
+            liveMedia.logPlayheadPosition(100000);
+            liveMedia.logMediaSessionEnd();
+
+            const eventTypes = bond.args.map(args => args[0].eventType);
+            expect(eventTypes).not.to.include(MediaEventType.Milestone);
+            expect(bond.lastCall.args[0].customAttributes).to.include({
+                media_content_complete: false,
+            });
+        });
+
+        it('should ignore the live window of on demand content', () => {
+            mpMedia.logMediaSessionStart();
+            mpMedia.updateLiveWindow({ start: 0, end: 600000 });
+
+            expect(mpMedia.getLiveLatency()).to.be.undefined;
+        });
+    });
+
+    describe('#logProgramChange', () => {
+        let time: number;
+        let linearMedia: MediaSession;
+        let news: ProgramContent;
+
+        beforeEach(() => {
+            time = 1000;
+            linearMedia = MediaSession.create(mp, {
+                content: { ...song, streamType: MediaStreamType.Linear },
+                clock: { now: () => time },
+            });
+            news = {
+                contentId: 'evening-news',
+                title: 'Evening News',
+                duration: 1800000,
+            };
+        });
+
+        it('should summarize the previous program and switch the content metadata', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            linearMedia.logMediaSessionStart();
+            linearMedia.logPlay();
+            time += 60000;
+            linearMedia.logProgramChange(news);
+
+            const programSummary = bond.getCall(-2).args[0];
+            expect(programSummary.eventType).to.eq(
+                MediaEventType.ProgramSummary,
+            );
+            expect(programSummary.customAttributes).to.include({
+                content_id: '023134',
+                content_title: 'Immigrant Song',
+                program_index: 0,
+                program_start_time: 1000,
+                program_end_time: 61000,
+                media_program_time_spent: 60000,
+                media_program_content_time_spent: 60000,
+                media_program_ad_time_spent: 0,
+            });
+
+            const programChange: MediaEvent = bond.lastCall.args[0];
+            expect(programChange.eventType).to.eq(MediaEventType.ProgramChange);
+            expect(programChange.getSessionAttributes()).to.include({
+                content_id: 'evening-news',
+                content_title: 'Evening News',
+                content_duration: 1800000,
+            });
+            expect(linearMedia.contentId).to.eq('evening-news');
+            expect(linearMedia.title).to.eq('Evening News');
+        });
+
+        it('should keep the session alive and summarize the last program when it ends', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            linearMedia.logMediaSessionStart();
+            const sessionId = linearMedia.sessionId;
+            linearMedia.logPlay();
+            time += 60000;
+            linearMedia.logProgramChange(news);
+            time += 30000;
+            linearMedia.logPause();
+            time += 10000;
+            linearMedia.logMediaSessionEnd();
+
+            expect(linearMedia.sessionId).to.eq(sessionId);
+            const eventTypes = bond.args.map(args => args[0].eventType);
+            expect(
+                eventTypes.filter(
+                    eventType => eventType === MediaEventType.SessionStart,
+                ).length,
+            ).to.eq(1);
+
+            const lastProgramSummary = bond.args.filter(
+                args => args[0].eventType === MediaEventType.ProgramSummary,
+            )[1][0];
+            expect(lastProgramSummary.customAttributes).to.include({
+                content_id: 'evening-news',
+                program_index: 1,
+                media_program_time_spent: 40000,
+                media_program_content_time_spent: 30000,
+            });
+            expect(bond.lastCall.args[0].customAttributes).to.include({
+                content_id: 'evening-news',
+                media_content_time_spent: 90000,
+                media_session_program_count: 2,
+            });
+        });
+
+        it('should start milestones, completion and watched ranges over for the new program', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+            linearMedia.duration = 100000;
+            linearMedia.progressMilestones = [50];
+            news.duration = 100000;
+
+            linearMedia.logMediaSessionStart();
+            linearMedia.logPlay();
+            linearMedia.logPlayheadPosition(0);
+            time += 60000;
+            linearMedia.logPlayheadPosition(60000);
+            linearMedia.logMediaContentEnd();
+            linearMedia.logProgramChange(news);
+            linearMedia.logPlayheadPosition(0);
+            time += 60000;
+            linearMedia.logPlayheadPosition(60000);
+            linearMedia.logMediaSessionEnd();
+
+            const milestones = bond.args.filter(
+                args => args[0].eventType === MediaEventType.Milestone,
+            );
+            expect(milestones.length).to.eq(2);
+            expect(milestones[1][0].getSessionAttributes()).to.include({
+                content_id: 'evening-news',
+            });
+            expect(bond.lastCall.args[0].customAttributes).to.include({
+                content_id: 'evening-news',
+                media_content_complete: false,
+                media_session_unique_time_watched: 60000,
+            });
+        });
+
+        it('should only switch the content metadata before the session starts', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            linearMedia.logProgramChange(news);
+            linearMedia.logMediaSessionStart();
+            linearMedia.logMediaSessionEnd();
+
+            const eventTypes = bond.args.map(args => args[0].eventType);
+            expect(eventTypes).not.to.include(MediaEventType.ProgramChange);
+            expect(eventTypes).not.to.include(MediaEventType.ProgramSummary);
+            expect(bond.lastCall.args[0].customAttributes).to.include({
+                content_id: 'evening-news',
+                media_session_program_count: 1,
+            });
+        });
+
+        it('should not log a Program Summary without a program change', () => {
+            const bond = sinon.spy(mp, 'logBaseEvent');
+
+            linearMedia.logMediaSessionStart();
+            linearMedia.logMediaSessionEnd();
+
+            const eventTypes = bond.args.map(args => args[0].eventType);
+            expect(eventTypes).not.to.include(MediaEventType.ProgramSummary);
+        });
+    });
 });
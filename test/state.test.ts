@@ -0,0 +1,137 @@
+import { expect } from 'chai';
+import { PlaybackStateMachine } from '../src/state';
+import { MediaEventType, PlaybackState } from '../src/types';
+
+let machine: PlaybackStateMachine;
+
+describe('PlaybackStateMachine', () => {
+    beforeEach(() => {
+        machine = new PlaybackStateMachine();
+    });
+
+    it('starts idle', () => {
+        expect(machine.state).to.eq(PlaybackState.Idle);
+    });
+
+    describe('#isLegal', () => {
+        it('only allows a session start while idle', () => {
+            expect(machine.isLegal(MediaEventType.SessionStart)).to.be.true;
+            expect(machine.isLegal(MediaEventType.Play)).to.be.false;
+            expect(machine.isLegal(MediaEventType.Pause)).to.be.false;
+            expect(machine.isLegal(MediaEventType.SessionEnd)).to.be.false;
+        });
+
+        it('does not allow an ad end without an ad', () => {
+            machine.transition(MediaEventType.SessionStart);
+            machine.transition(MediaEventType.AdBreakStart);
+
+            expect(machine.isLegal(MediaEventType.AdEnd)).to.be.false;
+            expect(machine.isLegal(MediaEventType.AdStart)).to.be.true;
+        });
+
+        it('always allows event types without a transition', () => {
+            expect(machine.isLegal(MediaEventType.SessionSummary)).to.be.true;
+        });
+    });
+
+    describe('#transition', () => {
+        it('moves through play and pause', () => {
+            machine.transition(MediaEventType.SessionStart);
+            expect(machine.state).to.eq(PlaybackState.Started);
+
+            machine.transition(MediaEventType.Play);
+            expect(machine.state).to.eq(PlaybackState.Playing);
+
+            machine.transition(MediaEventType.Pause);
+            expect(machine.state).to.eq(PlaybackState.Paused);
+
+            machine.transition(MediaEventType.ContentEnd);
+            expect(machine.state).to.eq(PlaybackState.Ended);
+
+            machine.transition(MediaEventType.SessionEnd);
+            expect(machine.state).to.eq(PlaybackState.Idle);
+        });
+
+        it('resumes the interrupted state after seeking and buffering', () => {
+            machine.transition(MediaEventType.SessionStart);
+            machine.transition(MediaEventType.Play);
+            machine.transition(MediaEventType.SeekStart);
+            expect(machine.state).to.eq(PlaybackState.Seeking);
+
+            machine.transition(MediaEventType.BufferStart);
+            expect(machine.state).to.eq(PlaybackState.Buffering);
+
+            machine.transition(MediaEventType.BufferEnd);
+            expect(machine.state).to.eq(PlaybackState.Seeking);
+
+            machine.transition(MediaEventType.SeekEnd);
+            expect(machine.state).to.eq(PlaybackState.Playing);
+        });
+
+        it('keeps buffering when the seek it interrupted ends first', () => {
+            machine.transition(MediaEventType.SessionStart);
+            machine.transition(MediaEventType.Play);
+            machine.transition(MediaEventType.SeekStart);
+            machine.transition(MediaEventType.BufferStart);
+
+            expect(machine.isLegal(MediaEventType.SeekEnd)).to.be.true;
+            machine.transition(MediaEventType.SeekEnd);
+            expect(machine.state).to.eq(PlaybackState.Buffering);
+
+            expect(machine.isLegal(MediaEventType.BufferEnd)).to.be.true;
+            machine.transition(MediaEventType.BufferEnd);
+            expect(machine.state).to.eq(PlaybackState.Playing);
+            expect(machine.getSuspendedStates()).to.eql([]);
+        });
+
+        it('applies a pause while seeking and buffering once they end', () => {
+            machine.transition(MediaEventType.SessionStart);
+            machine.transition(MediaEventType.Play);
+            machine.transition(MediaEventType.SeekStart);
+            machine.transition(MediaEventType.BufferStart);
+
+            expect(machine.isLegal(MediaEventType.Pause)).to.be.true;
+            machine.transition(MediaEventType.Pause);
+            expect(machine.state).to.eq(PlaybackState.Buffering);
+
+            machine.transition(MediaEventType.BufferEnd);
+            expect(machine.state).to.eq(PlaybackState.Seeking);
+
+            machine.transition(MediaEventType.SeekEnd);
+            expect(machine.state).to.eq(PlaybackState.Paused);
+        });
+
+        it('does not allow a pause while buffering in an ad', () => {
+            machine.transition(MediaEventType.SessionStart);
+            machine.transition(MediaEventType.Play);
+            machine.transition(MediaEventType.AdStart);
+            machine.transition(MediaEventType.BufferStart);
+
+            expect(machine.isLegal(MediaEventType.Pause)).to.be.false;
+        });
+
+        it('resumes the state before an ad break', () => {
+            machine.transition(MediaEventType.SessionStart);
+            machine.transition(MediaEventType.Play);
+            machine.transition(MediaEventType.AdBreakStart);
+            machine.transition(MediaEventType.AdStart);
+            expect(machine.state).to.eq(PlaybackState.InAd);
+
+            machine.transition(MediaEventType.AdEnd);
+            expect(machine.state).to.eq(PlaybackState.InAdBreak);
+
+            machine.transition(MediaEventType.AdBreakEnd);
+            expect(machine.state).to.eq(PlaybackState.Playing);
+        });
+
+        it('unwinds nested states when an ad break ends during an ad', () => {
+            machine.transition(MediaEventType.SessionStart);
+            machine.transition(MediaEventType.Pause);
+            machine.transition(MediaEventType.AdBreakStart);
+            machine.transition(MediaEventType.AdStart);
+            machine.transition(MediaEventType.AdBreakEnd);
+
+            expect(machine.state).to.eq(PlaybackState.Paused);
+        });
+    });
+});
@@ -0,0 +1,22 @@
+import { expect } from 'chai';
+import { InMemoryStorage } from '../src/storage';
+
+describe('InMemoryStorage', () => {
+    it('should store, return and remove items', () => {
+        const storage = new InMemoryStorage();
+
+        expect(storage.getItem('session')).to.eq(null);
+
+        storage.setItem('session', '{"sessionId":"1234"}');
+        expect(storage.getItem('session')).to.eq('{"sessionId":"1234"}');
+
+        storage.removeItem('session');
+        expect(storage.getItem('session')).to.eq(null);
+    });
+
+    it('should not return inherited properties', () => {
+        const storage = new InMemoryStorage();
+
+        expect(storage.getItem('toString')).to.eq(null);
+    });
+});